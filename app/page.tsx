@@ -1,9 +1,28 @@
 // app/page.tsx
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { TradingCard } from "@/components/trading-card";
 import { TradeHistory } from "@/components/trade-history";
+import { FeeSettingsPanel } from "@/components/fee-settings";
+import { PositionManagement } from "@/components/position-managment";
+import { OpenOrders } from "@/components/open-orders";
+import { RecorderControls } from "@/components/recorder-controls";
+import { DataSourceSelector } from "@/components/data-source-selector";
+import { ApiStatus } from "@/components/api-status";
+import { ReplayControls } from "@/components/replay-controls";
+import { TokenSearch } from "@/components/token-search";
+import { Watchlist } from "@/components/watchlist";
+import { OrderPresetsPanel } from "@/components/order-presets";
+import { RiskSettingsPanel } from "@/components/risk-settings";
+import { AlertsPanel, type AlertToken } from "@/components/alerts-panel";
+import { AlertFeed } from "@/components/alert-feed";
+import { AccountSwitcher } from "@/components/account-switcher";
+import { ArchivedRuns } from "@/components/archived-runs";
+import { StrategyPanel } from "@/components/strategy-panel";
+import { AnalyticsPanel } from "@/components/analytics-panel";
+import { EquityChart } from "@/components/equity-chart";
+import { CostBasisPanel } from "@/components/cost-basis-panel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -13,122 +32,276 @@ import {
   AlertCircle,
   TrendingUp,
   TrendingDown,
+  LineChart as LineChartIcon,
 } from "lucide-react";
 import {
   dexScreenerService,
   type DexScreenerPair,
 } from "@/services/dexscreener-service";
-import { formatCurrency } from "@/lib/utils";
-
-interface Trade {
-  id: string;
-  symbol: string;
-  type: "buy" | "sell";
-  amount: number;
-  price: number;
-  value: number;
-  timestamp: number;
-  pnl?: number;
-  pnlPercent?: number;
-}
-
-interface TokenPosition {
-  address: string;
-  symbol: string;
-  holdings: number;
-  trades: Trade[];
-  pnl: number;
-  averageCost: number;
-  currentPrice: number;
-}
+import {
+  persistenceService,
+  type PersistedSession,
+} from "@/services/persistence-service";
+import { downloadFile, formatCurrency } from "@/lib/utils";
+import { DEFAULT_FEE_SETTINGS, type FeeSettings } from "@/lib/fees";
+import {
+  CHAINS,
+  DEFAULT_CHAIN,
+  getChainName,
+  validateAddress,
+  type ChainId,
+} from "@/lib/chains";
+import {
+  DEFAULT_COST_BASIS_METHOD,
+  type CostBasisMethod,
+} from "@/lib/cost-basis";
+import {
+  applyCostBasisMethod,
+  executeTrade,
+  fromPositionRecord,
+  getAvailableBalance,
+  markToMarket,
+  samePositionRecords,
+  toPositionRecord,
+  type OrderRequest,
+  type Portfolio,
+  type PositionRecord,
+} from "@/lib/portfolio";
+import {
+  amendLimitOrder,
+  cancelOrder,
+  fillOrder,
+  replaceOrders,
+  submitOrder,
+  type LimitOrderDraft,
+  type OrderBookResult,
+  type OrderDraft,
+} from "@/lib/orders";
+import type { Order, TokenPosition, TriggerReason } from "@/lib/types";
+import { buildRealizedEquity, calculateAnalytics } from "@/lib/analytics";
+import {
+  appendEquitySample,
+  getEquityPoint,
+  getPositionsValue,
+  type EquityPoint,
+} from "@/lib/equity";
+import { importLedger, toLedgerCsv, toLedgerJson } from "@/lib/ledger";
+import {
+  addToWatchlist,
+  hasTradingCard,
+  isWatched,
+  moveWatchlistEntry,
+  removeFromWatchlist,
+  type WatchlistEntry,
+} from "@/lib/watchlist";
+import {
+  DEFAULT_ORDER_PRESETS,
+  sizeOrder,
+  type OrderPresets,
+  type OrderSize,
+} from "@/lib/order-sizing";
+import {
+  createAccount,
+  createDefaultAccountIndex,
+  getActiveAccount,
+  resetPositions,
+  summarizeRun,
+  type Account,
+  type AccountIndex,
+} from "@/lib/accounts";
+import {
+  DEFAULT_RISK_SETTINGS,
+  getRiskRejection,
+  type RiskSettings,
+} from "@/lib/risk";
+import {
+  ALERT_FEED_LIMIT,
+  createAlert,
+  type Alert as PriceAlert,
+  type AlertCondition,
+  type AlertEvent,
+} from "@/lib/alerts";
+import {
+  getNotificationState,
+  requestNotifications,
+  showNotification,
+  type NotificationState,
+} from "@/lib/notifications";
+import { STRATEGIES } from "@/strategies";
+import { useTriggerEngine } from "@/hooks/use-trigger-engine";
+import { useAlertEngine } from "@/hooks/use-alert-engine";
+import { useStrategyRunner } from "@/hooks/use-strategy-runner";
 
 export default function TradingSimulator() {
   // State
-  const [balance, setBalance] = useState<number>(1000);
-  const [initialBalance] = useState<number>(1000);
-  const [tokens, setTokens] = useState<TokenPosition[]>([]);
-  const [trades, setTrades] = useState<Trade[]>([]);
+  const [portfolio, setPortfolio] = useState<Portfolio>({
+    balance: 1000,
+    tokens: [],
+    trades: [],
+    orders: [],
+    costBasisMethod: DEFAULT_COST_BASIS_METHOD,
+  });
+  const [initialBalance, setInitialBalance] = useState<number>(1000);
   const [newAddress, setNewAddress] = useState<string>("");
+  const [chain, setChain] = useState<ChainId>(DEFAULT_CHAIN);
   const [error, setError] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [overallPnL, setOverallPnL] = useState<number>(0);
+  const [feeSettings, setFeeSettings] =
+    useState<FeeSettings>(DEFAULT_FEE_SETTINGS);
+  const [isHydrated, setIsHydrated] = useState<boolean>(false);
+  const [equityHistory, setEquityHistory] = useState<EquityPoint[]>([]);
+  const [watchlist, setWatchlist] = useState<WatchlistEntry[]>([]);
+  const [orderPresets, setOrderPresets] = useState<OrderPresets>(
+    DEFAULT_ORDER_PRESETS
+  );
+  const [riskSettings, setRiskSettings] = useState<RiskSettings>(
+    DEFAULT_RISK_SETTINGS
+  );
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [alertFeed, setAlertFeed] = useState<AlertEvent[]>([]);
+  const [notificationState, setNotificationState] =
+    useState<NotificationState>("unsupported");
+  const [accountIndex, setAccountIndex] = useState<AccountIndex>(() =>
+    createDefaultAccountIndex(Date.now())
+  );
 
-  // PnL Calculation
-  const calculatePositionPnL = useCallback(
-    (trades: Trade[], currentPrice: number) => {
-      let totalCost = 0;
-      let totalTokens = 0;
-      let realizedPnL = 0;
-
-      trades.forEach((trade) => {
-        if (trade.type === "buy") {
-          totalCost += trade.value;
-          totalTokens += trade.amount;
-        } else {
-          const avgCost = totalCost / totalTokens;
-          const saleValue = trade.amount * trade.price;
-          const costBasis = trade.amount * avgCost;
-          realizedPnL += saleValue - costBasis;
-
-          const remainingRatio = (totalTokens - trade.amount) / totalTokens;
-          totalCost *= remainingRatio;
-          totalTokens -= trade.amount;
-        }
-      });
-
-      const currentValue = totalTokens * currentPrice;
-      const unrealizedPnL = totalTokens > 0 ? currentValue - totalCost : 0;
+  const { balance, tokens, trades, orders, costBasisMethod } = portfolio;
 
-      return {
-        realizedPnL,
-        unrealizedPnL,
-        totalPnL: realizedPnL + unrealizedPnL,
-        totalTokens,
-        averageCost: totalTokens > 0 ? totalCost / totalTokens : 0,
-      };
+  // Orders can be placed from price callbacks between renders, so the latest
+  // portfolio is mirrored in a ref and every update goes through it.
+  const portfolioRef = useRef<Portfolio>(portfolio);
+  const updatePortfolio = useCallback(
+    (updater: (prev: Portfolio) => Portfolio) => {
+      portfolioRef.current = updater(portfolioRef.current);
+      setPortfolio(portfolioRef.current);
+    },
+    []
+  );
+  const watchlistRef = useRef<WatchlistEntry[]>(watchlist);
+  const updateWatchlist = useCallback(
+    (updater: (prev: WatchlistEntry[]) => WatchlistEntry[]) => {
+      watchlistRef.current = updater(watchlistRef.current);
+      setWatchlist(watchlistRef.current);
     },
     []
   );
 
   // Token Management
-  const addToken = async () => {
-    try {
-      setError("");
-      setIsLoading(true);
-
-      if (tokens.length >= 6) {
-        setError("Maximum 6 tokens allowed");
-        return;
+  const addTokenAddress = useCallback(
+    // Without a chain (e.g. tokens from a replay) whichever chain the pair
+    // is on is accepted. New tokens go on the watchlist.
+    async (address: string, chainId?: ChainId) => {
+      if (chainId) {
+        const invalid = validateAddress(chainId, address);
+        if (invalid) {
+          setError(invalid);
+          return false;
+        }
       }
 
-      const normalizedAddress = newAddress.toLowerCase();
-      if (tokens.some((t) => t.address.toLowerCase() === normalizedAddress)) {
+      const normalizedAddress = address.trim().toLowerCase();
+      if (
+        portfolioRef.current.tokens.some(
+          (t) => t.address.toLowerCase() === normalizedAddress
+        ) ||
+        isWatched(watchlistRef.current, normalizedAddress)
+      ) {
         setError("Token already added");
-        return;
+        return false;
       }
 
       const tokenData = await dexScreenerService.fetchTokenData(
-        normalizedAddress
+        normalizedAddress,
+        chainId
       );
       if (!tokenData) {
-        setError("Invalid token address");
-        return;
+        setError(
+          chainId
+            ? `No ${getChainName(chainId)} pairs found for this token`
+            : "Invalid token address"
+        );
+        return false;
       }
 
-      const currentPrice = parseFloat(tokenData.priceUsd);
-      setTokens((prev) => [
-        ...prev,
-        {
+      updateWatchlist((prev) =>
+        addToWatchlist(prev, {
           address: normalizedAddress,
+          chainId: tokenData.chainId,
+          pairAddress: tokenData.pairAddress,
           symbol: tokenData.baseToken.symbol,
-          holdings: 0,
-          trades: [],
-          pnl: 0,
-          averageCost: 0,
-          currentPrice,
-        },
-      ]);
-      setNewAddress("");
+          addedAt: Date.now(),
+        })
+      );
+      return true;
+    },
+    [updateWatchlist]
+  );
+
+  // Opens a trading card for a watched token. Tokens with trade history
+  // already have a position and just leave the watchlist.
+  const handlePromoteToCard = useCallback(
+    (address: string) => {
+      const entry = watchlistRef.current.find((e) => e.address === address);
+      if (!entry) return;
+
+      if (!portfolioRef.current.tokens.some((t) => t.address === address)) {
+        const tokenData = dexScreenerService.getTokenData(address);
+        updatePortfolio((prev) => ({
+          ...prev,
+          tokens: [
+            ...prev.tokens,
+            {
+              address,
+              chainId: entry.chainId,
+              pairAddress: entry.pairAddress,
+              symbol: entry.symbol,
+              holdings: 0,
+              trades: [],
+              pnl: 0,
+              fees: 0,
+              averageCost: 0,
+              currentPrice: tokenData ? parseFloat(tokenData.priceUsd) : 0,
+            },
+          ],
+        }));
+      }
+      updateWatchlist((prev) => removeFromWatchlist(prev, address));
+    },
+    [updatePortfolio, updateWatchlist]
+  );
+
+  const handleWatchlistRemove = useCallback(
+    (address: string) =>
+      updateWatchlist((prev) => removeFromWatchlist(prev, address)),
+    [updateWatchlist]
+  );
+
+  const handleWatchlistMove = useCallback(
+    (address: string, offset: number) =>
+      updateWatchlist((prev) => moveWatchlistEntry(prev, address, offset)),
+    [updateWatchlist]
+  );
+
+  const addToken = async () => {
+    try {
+      setError("");
+      setIsLoading(true);
+      if (await addTokenAddress(newAddress, chain)) {
+        setNewAddress("");
+      }
+    } catch (err) {
+      setError("Failed to add token");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addSearchResult = async (pair: DexScreenerPair) => {
+    try {
+      setError("");
+      setIsLoading(true);
+      await addTokenAddress(pair.baseToken.address, pair.chainId);
     } catch (err) {
       setError("Failed to add token");
     } finally {
@@ -136,141 +309,686 @@ export default function TradingSimulator() {
     }
   };
 
+  // Replays and fixtures
+  // Adds a recording's tokens that aren't on a card or the watchlist yet.
+  const handleRecordingLoaded = useCallback(
+    async (addresses: string[]) => {
+      setError("");
+      for (const address of addresses) {
+        const exists =
+          portfolioRef.current.tokens.some(
+            (t) => t.address === address.toLowerCase()
+          ) || isWatched(watchlistRef.current, address);
+        if (!exists) await addTokenAddress(address);
+      }
+    },
+    [addTokenAddress]
+  );
+
   // Trading Logic
-  const handleTrade = useCallback(
-    async (tokenAddress: string, isBuy: boolean, amount: number) => {
+  // Executes a market order against the latest price and returns the
+  // rejection reason, if any.
+  const executeOrder = useCallback(
+    (order: OrderRequest): string | null => {
+      const tokenData = dexScreenerService.getTokenData(order.address);
+      if (!tokenData) return "Token data not available";
+      if (order.type === "buy") {
+        const rejection = getRiskRejection(
+          tokenData,
+          riskSettings,
+          dexScreenerService.now()
+        );
+        if (rejection) return rejection;
+      }
+
+      const result = executeTrade(
+        portfolioRef.current,
+        tokenData,
+        { ...order, timestamp: order.timestamp ?? dexScreenerService.now() },
+        feeSettings
+      );
+      if ("error" in result) return result.error;
+
+      updatePortfolio(() => result.portfolio);
+      return null;
+    },
+    [feeSettings, riskSettings, updatePortfolio]
+  );
+
+  const placeOrder = useCallback(
+    (order: OrderRequest) => {
       try {
         setError("");
-        const tokenData = dexScreenerService.getTokenData(tokenAddress);
-        if (!tokenData) {
-          setError("Token data not available");
-          return;
-        }
+        const rejection = executeOrder(order);
+        if (rejection) setError(rejection);
+      } catch (err) {
+        setError("Trade failed");
+      }
+    },
+    [executeOrder]
+  );
+
+  // Percent sizes resolve against the portfolio at the moment of the click.
+  const handleTrade = useCallback(
+    (tokenAddress: string, type: "buy" | "sell", size: OrderSize) => {
+      const tokenData = dexScreenerService.getTokenData(tokenAddress);
+      if (!tokenData) {
+        setError("Token data not available");
+        return;
+      }
+
+      const sized = sizeOrder(
+        portfolioRef.current,
+        tokenData,
+        tokenAddress,
+        type,
+        size,
+        feeSettings
+      );
+      if ("error" in sized) {
+        setError(sized.error);
+        return;
+      }
+      placeOrder(sized.order);
+    },
+    [feeSettings, placeOrder]
+  );
+
+  // Stop-loss / Take-profit
+  const updateExitLevels = useCallback(
+    (
+      address: string,
+      levels: Pick<TokenPosition, "stopLoss" | "takeProfit">
+    ) => {
+      updatePortfolio((prev) => ({
+        ...prev,
+        tokens: prev.tokens.map((t) =>
+          t.address === address ? { ...t, ...levels } : t
+        ),
+      }));
+    },
+    [updatePortfolio]
+  );
+
+  // The card resubscribes on the new pair; fills use it from the next tick.
+  const handlePairChange = useCallback(
+    (address: string, pair: DexScreenerPair) => {
+      updatePortfolio((prev) => ({
+        ...prev,
+        tokens: prev.tokens.map((t) =>
+          t.address === address ? { ...t, pairAddress: pair.pairAddress } : t
+        ),
+      }));
+    },
+    [updatePortfolio]
+  );
+
+  const handleExitTrigger = useCallback(
+    (address: string, reason: TriggerReason) => {
+      const token = portfolioRef.current.tokens.find(
+        (t) => t.address === address
+      );
+      if (!token || token.holdings <= 0) return;
+
+      placeOrder({
+        address,
+        type: "sell",
+        tokenAmount: token.holdings,
+        trigger: reason,
+      });
+    },
+    [placeOrder]
+  );
+
+  // Resting Orders
+  const commitOrderBook = useCallback(
+    (result: OrderBookResult) => {
+      if ("error" in result) {
+        setError(result.error);
+        return false;
+      }
+      updatePortfolio(() => result.portfolio);
+      return true;
+    },
+    [updatePortfolio]
+  );
 
-        const currentPrice = parseFloat(tokenData.priceUsd);
-        if (isNaN(currentPrice) || currentPrice <= 0) {
-          setError("Invalid price data");
+  const handleSubmitOrder = useCallback(
+    (draft: OrderDraft) => {
+      setError("");
+      const tokenData = dexScreenerService.getTokenData(draft.address);
+      const currentPrice = tokenData ? parseFloat(tokenData.priceUsd) : 0;
+      return commitOrderBook(
+        submitOrder(portfolioRef.current, draft, currentPrice, feeSettings)
+      );
+    },
+    [feeSettings, commitOrderBook]
+  );
+
+  const handleAmendLimitOrder = useCallback(
+    (
+      orderId: string,
+      changes: Pick<LimitOrderDraft, "limitPrice" | "size">
+    ) => {
+      setError("");
+      return commitOrderBook(
+        amendLimitOrder(portfolioRef.current, orderId, changes, feeSettings)
+      );
+    },
+    [feeSettings, commitOrderBook]
+  );
+
+  const handleCancelOrder = useCallback(
+    (orderId: string) => {
+      updatePortfolio((prev) => cancelOrder(prev, orderId));
+    },
+    [updatePortfolio]
+  );
+
+  const handleOrderTrigger = useCallback(
+    (order: Order, reason: TriggerReason) => {
+      const tokenData = dexScreenerService.getTokenData(order.address);
+      if (!tokenData) return;
+      if (order.type === "buy") {
+        const rejection = getRiskRejection(
+          tokenData,
+          riskSettings,
+          dexScreenerService.now()
+        );
+        if (rejection) {
+          setError(`${order.symbol} ${order.kind} buy: ${rejection}`);
           return;
         }
+      }
 
-        const tokenAmount = amount / currentPrice;
-
-        if (isBuy) {
-          if (amount > balance) {
-            setError("Insufficient balance");
-            return;
-          }
-
-          const trade: Trade = {
-            id: Math.random().toString(36).substring(7),
-            symbol: tokenData.baseToken.symbol,
-            type: "buy",
-            amount: tokenAmount,
-            price: currentPrice,
-            value: amount,
-            timestamp: Date.now(),
-          };
-
-          setBalance((prev) => prev - amount);
-          setTokens((prev) =>
-            prev.map((t) => {
-              if (t.address === tokenAddress) {
-                const updatedTrades = [...t.trades, trade];
-                const pnlData = calculatePositionPnL(
-                  updatedTrades,
-                  currentPrice
-                );
-                return {
-                  ...t,
-                  holdings: pnlData.totalTokens,
-                  trades: updatedTrades,
-                  pnl: pnlData.totalPnL,
-                  averageCost: pnlData.averageCost,
-                  currentPrice,
-                };
-              }
-              return t;
-            })
-          );
-          setTrades((prev) => [trade, ...prev]);
-        } else {
-          const token = tokens.find((t) => t.address === tokenAddress);
-          if (!token) return;
-
-          if (tokenAmount > token.holdings) {
-            setError("Insufficient tokens");
-            return;
-          }
-
-          const trade: Trade = {
-            id: Math.random().toString(36).substring(7),
-            symbol: token.symbol,
-            type: "sell",
-            amount: tokenAmount,
-            price: currentPrice,
-            value: amount,
-            timestamp: Date.now(),
-          };
-
-          const pnlData = calculatePositionPnL(
-            [...token.trades, trade],
-            currentPrice
-          );
-          trade.pnl = pnlData.realizedPnL;
-          trade.pnlPercent = (pnlData.realizedPnL / amount) * 100;
-
-          setBalance((prev) => prev + amount);
-          setTokens((prev) =>
-            prev.map((t) => {
-              if (t.address === tokenAddress) {
-                return {
-                  ...t,
-                  holdings: pnlData.totalTokens,
-                  trades: [...t.trades, trade],
-                  pnl: pnlData.totalPnL,
-                  averageCost: pnlData.averageCost,
-                  currentPrice,
-                };
-              }
-              return t;
-            })
-          );
-          setTrades((prev) => [trade, ...prev]);
-        }
-      } catch (err) {
-        setError("Trade failed");
+      const result = fillOrder(
+        portfolioRef.current,
+        tokenData,
+        order.id,
+        reason,
+        feeSettings,
+        dexScreenerService.now()
+      );
+      if ("error" in result) {
+        setError(
+          `${order.symbol} ${order.kind} ${order.type}: ${result.error}`
+        );
+        return;
       }
+      updatePortfolio(() => result.portfolio);
     },
-    [balance, tokens, calculatePositionPnL]
+    [feeSettings, riskSettings, updatePortfolio]
   );
 
+  const handleOrdersUpdated = useCallback(
+    (updated: Order[]) => {
+      updatePortfolio((prev) => replaceOrders(prev, updated));
+    },
+    [updatePortfolio]
+  );
+
+  const triggerHandlers = useMemo(
+    () => ({
+      onExit: handleExitTrigger,
+      onOrder: handleOrderTrigger,
+      onOrdersUpdated: handleOrdersUpdated,
+    }),
+    [handleExitTrigger, handleOrderTrigger, handleOrdersUpdated]
+  );
+  useTriggerEngine(tokens, orders, triggerHandlers);
+
+  // Strategies
+  const strategyHandlers = useMemo(
+    () => ({
+      getPortfolio: () => portfolioRef.current,
+      execute: executeOrder,
+    }),
+    [executeOrder]
+  );
+  const strategyRunner = useStrategyRunner(strategyHandlers);
+  const stopStrategy = strategyRunner.stop;
+
+  // Sends a flat card back to the watchlist. A position with trade history
+  // stays in the portfolio so P/L and the ledger keep adding up.
+  const handleMoveToWatchlist = useCallback(
+    (address: string) => {
+      const token = portfolioRef.current.tokens.find(
+        (t) => t.address === address
+      );
+      if (!token) return;
+      if (token.holdings > 0) {
+        setError("Close the position before moving it to the watchlist");
+        return;
+      }
+      if (portfolioRef.current.orders.some((o) => o.address === address)) {
+        setError("Cancel open orders before moving it to the watchlist");
+        return;
+      }
+
+      setError("");
+      stopStrategy(address);
+      if (token.trades.length === 0) {
+        updatePortfolio((prev) => ({
+          ...prev,
+          tokens: prev.tokens.filter((t) => t.address !== address),
+        }));
+      }
+      updateWatchlist((prev) =>
+        addToWatchlist(prev, {
+          address,
+          chainId: token.chainId,
+          pairAddress: token.pairAddress,
+          symbol: token.symbol,
+          addedAt: Date.now(),
+        })
+      );
+    },
+    [stopStrategy, updatePortfolio, updateWatchlist]
+  );
+
+  const cardTokens = useMemo(
+    () => tokens.filter((t) => hasTradingCard(watchlist, t)),
+    [tokens, watchlist]
+  );
+  const lockedAddresses = useMemo(
+    () => new Set(tokens.map((t) => t.address)),
+    [tokens]
+  );
+
+  // Alerts
+  const alertTokens = useMemo<AlertToken[]>(
+    () => [
+      ...cardTokens.map(({ address, chainId, symbol }) => ({
+        address,
+        chainId,
+        symbol,
+      })),
+      ...watchlist.map(({ address, chainId, symbol }) => ({
+        address,
+        chainId,
+        symbol,
+      })),
+    ],
+    [cardTokens, watchlist]
+  );
+
+  // Permission is only known in the browser.
+  useEffect(() => {
+    setNotificationState(getNotificationState());
+  }, []);
+
+  const handleEnableNotifications = useCallback(async () => {
+    setNotificationState(await requestNotifications());
+  }, []);
+
+  const handleAlertsFired = useCallback((events: AlertEvent[]) => {
+    setAlertFeed((prev) =>
+      [...[...events].reverse(), ...prev].slice(0, ALERT_FEED_LIMIT)
+    );
+    setAlerts((prev) =>
+      prev.map((alert) => {
+        const event = events.find((e) => e.alertId === alert.id);
+        return event ? { ...alert, lastTriggeredAt: event.timestamp } : alert;
+      })
+    );
+    events.forEach((event) =>
+      showNotification(`${event.symbol} alert`, event.message, event.alertId)
+    );
+  }, []);
+  useAlertEngine(alerts, handleAlertsFired);
+
+  const handleCreateAlert = useCallback(
+    (token: AlertToken, condition: AlertCondition) => {
+      const result = createAlert(token, condition, Date.now());
+      if ("error" in result) return result.error;
+      setAlerts((prev) => [...prev, result.alert]);
+      return null;
+    },
+    []
+  );
+
+  const handleToggleAlert = useCallback((alertId: string, enabled: boolean) => {
+    setAlerts((prev) =>
+      prev.map((a) => (a.id === alertId ? { ...a, enabled } : a))
+    );
+  }, []);
+
+  const handleRemoveAlert = useCallback((alertId: string) => {
+    setAlerts((prev) => prev.filter((a) => a.id !== alertId));
+  }, []);
+
+  // Polling
+  // Background tabs poll less often so idle sessions don't eat the shared
+  // API budget.
+  useEffect(() => {
+    const update = () => dexScreenerService.setHidden(document.hidden);
+    update();
+    document.addEventListener("visibilitychange", update);
+    return () => document.removeEventListener("visibilitychange", update);
+  }, []);
+
   // Price Updates
   const handlePriceUpdate = useCallback(
     (address: string, price: number) => {
-      setTokens((prev) => {
-        const token = prev.find(
-          (t) => t.address.toLowerCase() === address.toLowerCase()
+      updatePortfolio((prev) => markToMarket(prev, address, price));
+    },
+    [updatePortfolio]
+  );
+
+  // Equity Tracking
+  const sampledTradeCountRef = useRef(0);
+  useEffect(() => {
+    if (!isHydrated) return;
+
+    // Always sample right after a fill so every trade lands on the curve.
+    const force = trades.length !== sampledTradeCountRef.current;
+    sampledTradeCountRef.current = trades.length;
+    const point = getEquityPoint({ balance, tokens }, dexScreenerService.now());
+    setEquityHistory((prev) => appendEquitySample(prev, point, force));
+  }, [isHydrated, balance, tokens, trades.length]);
+
+  // Cost Basis
+  const handleCostBasisChange = useCallback(
+    (method: CostBasisMethod) => {
+      updatePortfolio((prev) => applyCostBasisMethod(prev, method));
+    },
+    [updatePortfolio]
+  );
+
+  // Analytics
+  const analytics = useMemo(
+    () =>
+      calculateAnalytics(
+        trades,
+        tokens,
+        equityHistory.length > 1
+          ? equityHistory
+          : buildRealizedEquity(trades, initialBalance),
+        costBasisMethod
+      ),
+    [trades, tokens, equityHistory, initialBalance, costBasisMethod]
+  );
+
+  // Trade History Export / Import
+  const handleExportTrades = useCallback(
+    (format: "csv" | "json") => {
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      if (format === "csv") {
+        downloadFile(toLedgerCsv(tokens), `trades-${stamp}.csv`, "text/csv");
+      } else {
+        downloadFile(
+          toLedgerJson(tokens, initialBalance),
+          `trades-${stamp}.json`,
+          "application/json"
         );
-        if (!token || token.currentPrice === price) {
-          return prev;
-        }
+      }
+    },
+    [tokens, initialBalance]
+  );
 
-        return prev.map((t) => {
-          if (t.address.toLowerCase() === address.toLowerCase()) {
-            const pnlData = calculatePositionPnL(t.trades, price);
-            return {
-              ...t,
-              currentPrice: price,
-              pnl: pnlData.totalPnL,
-            };
-          }
-          return t;
-        });
-      });
+  // Replaces the session with the imported ledger. Nothing changes unless
+  // every row is valid.
+  const handleImportTrades = useCallback(
+    async (file: File) => {
+      const result = importLedger(
+        await file.text(),
+        file.name,
+        initialBalance,
+        portfolioRef.current.costBasisMethod
+      );
+      if ("errors" in result) return result.errors;
+
+      if (
+        portfolioRef.current.trades.length > 0 &&
+        !window.confirm("Replace the current session with the imported trades?")
+      ) {
+        return [];
+      }
+
+      setError("");
+      updatePortfolio(() => result.portfolio);
+      // Imported open positions move off the watchlist onto cards.
+      updateWatchlist((prev) =>
+        prev.filter(
+          (e) =>
+            !result.portfolio.tokens.some(
+              (t) => t.address === e.address && t.holdings > 0
+            )
+        )
+      );
+      setInitialBalance(result.initialBalance);
+      setEquityHistory([]);
+      return [];
     },
-    [calculatePositionPnL]
+    [initialBalance, updatePortfolio, updateWatchlist]
   );
 
+  // Session Persistence
+  // Loads an account's saved session, or a fresh one at its starting balance.
+  const applySession = useCallback(
+    (session: PersistedSession | null, account: Account) => {
+      updatePortfolio(() =>
+        session
+          ? {
+              balance: session.balance,
+              tokens: session.tokens.map((record) =>
+                fromPositionRecord(record, session.costBasisMethod)
+              ),
+              trades: session.trades,
+              orders: session.orders,
+              costBasisMethod: session.costBasisMethod,
+            }
+          : {
+              balance: account.startingBalance,
+              tokens: [],
+              trades: [],
+              orders: [],
+              costBasisMethod: DEFAULT_COST_BASIS_METHOD,
+            }
+      );
+      setInitialBalance(session?.initialBalance ?? account.startingBalance);
+      setFeeSettings({ ...DEFAULT_FEE_SETTINGS, ...session?.feeSettings });
+      setEquityHistory(session?.equityHistory ?? []);
+      updateWatchlist(() => session?.watchlist ?? []);
+      setOrderPresets(session?.orderPresets ?? DEFAULT_ORDER_PRESETS);
+      setRiskSettings(session?.riskSettings ?? DEFAULT_RISK_SETTINGS);
+      setAlerts(session?.alerts ?? []);
+      setAlertFeed(session?.alertFeed ?? []);
+      sampledTradeCountRef.current = session?.trades.length ?? 0;
+    },
+    [updatePortfolio, updateWatchlist]
+  );
+
+  useEffect(() => {
+    let mounted = true;
+
+    persistenceService.loadAccounts().then(async (saved) => {
+      const index = saved ?? createDefaultAccountIndex(Date.now());
+      const session = await persistenceService.loadSession(
+        getActiveAccount(index).id
+      );
+      if (!mounted) return;
+      setAccountIndex(index);
+      applySession(session, getActiveAccount(index));
+      setIsHydrated(true);
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [applySession]);
+
+  // markToMarket rewrites every position on each tick. The saved copy
+  // leaves those fields out and keeps its identity until a position really
+  // changes, so price ticks alone don't trigger a save.
+  const positionRecordsRef = useRef<PositionRecord[]>([]);
+  const positionRecords = useMemo(() => {
+    const next = tokens.map(toPositionRecord);
+    if (!samePositionRecords(next, positionRecordsRef.current)) {
+      positionRecordsRef.current = next;
+    }
+    return positionRecordsRef.current;
+  }, [tokens]);
+
+  const session = useMemo<Omit<PersistedSession, "savedAt">>(
+    () => ({
+      balance,
+      initialBalance,
+      tokens: positionRecords,
+      trades,
+      orders,
+      feeSettings,
+      equityHistory,
+      costBasisMethod,
+      watchlist,
+      orderPresets,
+      riskSettings,
+      alerts,
+      alertFeed,
+      watchedAddresses: [
+        ...positionRecords
+          .filter((p) => hasTradingCard(watchlist, p))
+          .map((p) => p.address),
+        ...watchlist.map((e) => e.address),
+      ],
+    }),
+    [
+      balance,
+      initialBalance,
+      positionRecords,
+      trades,
+      orders,
+      feeSettings,
+      equityHistory,
+      costBasisMethod,
+      watchlist,
+      orderPresets,
+      riskSettings,
+      alerts,
+      alertFeed,
+    ]
+  );
+  const activeAccountId = accountIndex.activeAccountId;
+
+  useEffect(() => {
+    if (!isHydrated) return;
+
+    const timeout = setTimeout(() => {
+      persistenceService.saveSession(activeAccountId, session);
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [isHydrated, activeAccountId, session]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    persistenceService.saveAccounts(accountIndex);
+  }, [isHydrated, accountIndex]);
+
+  // Accounts
+  const stopAllStrategies = useCallback(() => {
+    Object.keys(strategyRunner.running).forEach(stopStrategy);
+  }, [strategyRunner.running, stopStrategy]);
+
+  // The outgoing account is saved right away rather than on the debounce.
+  const handleSwitchAccount = useCallback(
+    async (accountId: string) => {
+      const account = accountIndex.accounts.find((a) => a.id === accountId);
+      if (!account || accountId === activeAccountId) return;
+
+      stopAllStrategies();
+      await persistenceService.saveSession(activeAccountId, session);
+      const next = await persistenceService.loadSession(accountId);
+      setError("");
+      setAccountIndex((prev) => ({ ...prev, activeAccountId: accountId }));
+      applySession(next, account);
+    },
+    [accountIndex, activeAccountId, session, stopAllStrategies, applySession]
+  );
+
+  const handleCreateAccount = useCallback(
+    async (name: string, startingBalance: number) => {
+      const result = createAccount(
+        accountIndex,
+        name,
+        startingBalance,
+        Date.now()
+      );
+      if ("error" in result) return result.error;
+
+      stopAllStrategies();
+      await persistenceService.saveSession(activeAccountId, session);
+      setError("");
+      setAccountIndex((prev) => ({
+        ...prev,
+        activeAccountId: result.account.id,
+        accounts: [...prev.accounts, result.account],
+      }));
+      applySession(null, result.account);
+      return null;
+    },
+    [accountIndex, activeAccountId, session, stopAllStrategies, applySession]
+  );
+
+  // Starts the account over from its starting balance. Cards, the watchlist
+  // and settings stay; positions, orders, trades and the equity curve go.
+  const resetRun = useCallback(() => {
+    const account = getActiveAccount(accountIndex);
+    const now = Date.now();
+
+    stopAllStrategies();
+    updatePortfolio((prev) => ({
+      ...prev,
+      balance: account.startingBalance,
+      tokens: resetPositions(
+        prev.tokens.filter((t) => !isWatched(watchlistRef.current, t.address))
+      ),
+      trades: [],
+      orders: [],
+    }));
+    setInitialBalance(account.startingBalance);
+    setEquityHistory([]);
+    sampledTradeCountRef.current = 0;
+    setAccountIndex((prev) => ({
+      ...prev,
+      accounts: prev.accounts.map((a) =>
+        a.id === account.id ? { ...a, runStartedAt: now } : a
+      ),
+    }));
+    setError("");
+  }, [accountIndex, stopAllStrategies, updatePortfolio]);
+
+  const handleResetAccount = useCallback(() => {
+    if (
+      portfolioRef.current.trades.length > 0 &&
+      !window.confirm("Reset this account? Its trades will be discarded.")
+    ) {
+      return;
+    }
+    resetRun();
+  }, [resetRun]);
+
+  const handleArchiveRun = useCallback(() => {
+    if (portfolioRef.current.trades.length === 0) {
+      setError("Nothing to archive yet");
+      return;
+    }
+    if (!window.confirm("Archive this run and reset the account?")) return;
+
+    const { balance, tokens } = portfolioRef.current;
+    const run = summarizeRun(
+      getActiveAccount(accountIndex),
+      balance + getPositionsValue(tokens),
+      analytics,
+      Date.now()
+    );
+    setAccountIndex((prev) => ({
+      ...prev,
+      archivedRuns: [run, ...prev.archivedRuns],
+    }));
+    resetRun();
+  }, [accountIndex, analytics, resetRun]);
+
   // Update overall PnL
   useEffect(() => {
     const totalPnL = tokens.reduce((sum, token) => sum + token.pnl, 0);
@@ -282,10 +1000,23 @@ export default function TradingSimulator() {
       <div className="max-w-7xl mx-auto space-y-4">
         {/* Header */}
         <div className="flex justify-between items-center">
-          <h1 className="text-2xl font-bold text-white">
-            Solana Trading Simulator
-          </h1>
           <div className="flex items-center gap-4">
+            <h1 className="text-2xl font-bold text-white">
+              DEX Trading Simulator
+            </h1>
+            <AccountSwitcher
+              accounts={accountIndex.accounts}
+              activeAccountId={activeAccountId}
+              onSwitch={handleSwitchAccount}
+              onCreate={handleCreateAccount}
+              onReset={handleResetAccount}
+              onArchive={handleArchiveRun}
+            />
+          </div>
+          <div className="flex items-center gap-4">
+            <DataSourceSelector onFixtureLoaded={handleRecordingLoaded} />
+            <ApiStatus />
+            <RecorderControls />
             <div
               className={`flex items-center gap-2 ${
                 overallPnL >= 0 ? "text-green-500" : "text-red-500"
@@ -301,19 +1032,47 @@ export default function TradingSimulator() {
                 {((overallPnL / initialBalance) * 100).toFixed(2)}%)
               </span>
             </div>
+            <div className="flex items-center gap-2">
+              <LineChartIcon className="w-5 h-5 text-white" />
+              <span className="text-lg font-semibold text-white">
+                {formatCurrency(balance + getPositionsValue(tokens))}
+              </span>
+            </div>
             <div className="flex items-center gap-2">
               <Wallet className="w-5 h-5 text-white" />
               <span className="text-lg font-semibold text-white">
                 {formatCurrency(balance)}
               </span>
+              {orders.length > 0 && (
+                <span className="text-sm text-slate-400">
+                  ({formatCurrency(getAvailableBalance(portfolio))} available)
+                </span>
+              )}
             </div>
           </div>
         </div>
 
         {/* Token Input */}
+        <TokenSearch onSelect={addSearchResult} disabled={isLoading} />
         <div className="flex gap-2">
+          <select
+            value={chain}
+            onChange={(e) => setChain(e.target.value)}
+            className="h-10 rounded-md border border-input bg-slate-900 px-2 text-sm text-white"
+            disabled={isLoading}
+          >
+            {Object.entries(CHAINS).map(([id, info]) => (
+              <option key={id} value={id}>
+                {info.name}
+              </option>
+            ))}
+          </select>
           <Input
-            placeholder="Enter token address (e.g., JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN)"
+            placeholder={
+              chain === "solana"
+                ? "Enter token address (e.g., JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN)"
+                : `Enter ${getChainName(chain)} token address (0x…)`
+            }
             value={newAddress}
             onChange={(e) => setNewAddress(e.target.value)}
             className="font-mono text-white"
@@ -328,6 +1087,9 @@ export default function TradingSimulator() {
           </Button>
         </div>
 
+        {/* Replay */}
+        <ReplayControls onLoaded={handleRecordingLoaded} />
+
         {/* Error Display */}
         {error && (
           <Alert variant="destructive">
@@ -336,23 +1098,128 @@ export default function TradingSimulator() {
           </Alert>
         )}
 
+        {/* Alert Feed */}
+        <AlertFeed events={alertFeed} onClear={() => setAlertFeed([])} />
+
+        {/* Watchlist */}
+        <Watchlist
+          entries={watchlist}
+          lockedAddresses={lockedAddresses}
+          onPromote={handlePromoteToCard}
+          onRemove={handleWatchlistRemove}
+          onMove={handleWatchlistMove}
+          onPriceUpdate={handlePriceUpdate}
+        />
+
         {/* Trading Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {tokens.map((token) => (
-            <TradingCard
-              key={token.address}
-              address={token.address}
-              onBuy={(amount) => handleTrade(token.address, true, amount)}
-              onSell={(amount) => handleTrade(token.address, false, amount)}
-              holdings={token.holdings}
-              pnl={token.pnl}
-              onPriceUpdate={(price) => handlePriceUpdate(token.address, price)}
-            />
+          {cardTokens.map((token) => (
+            <div key={token.address} className="space-y-2">
+              <TradingCard
+                address={token.address}
+                chainId={token.chainId}
+                pairAddress={token.pairAddress}
+                onPairChange={(pair) => handlePairChange(token.address, pair)}
+                onClose={() => handleMoveToWatchlist(token.address)}
+                buyPresets={orderPresets.buy}
+                sellPresets={orderPresets.sell}
+                riskSettings={riskSettings}
+                onOrder={(type, size) => handleTrade(token.address, type, size)}
+                holdings={token.holdings}
+                pnl={token.pnl}
+                fees={token.fees}
+                onPriceUpdate={(price) =>
+                  handlePriceUpdate(token.address, price)
+                }
+              />
+              {token.holdings > 0 && (
+                <PositionManagement
+                  position={{
+                    symbol: token.symbol,
+                    amount: token.holdings,
+                    entryPrice: token.averageCost,
+                    currentPrice: token.currentPrice,
+                    stopLoss: token.stopLoss,
+                    takeProfit: token.takeProfit,
+                  }}
+                  onUpdateStopLoss={(price) =>
+                    updateExitLevels(token.address, { stopLoss: price })
+                  }
+                  onUpdateTakeProfit={(price) =>
+                    updateExitLevels(token.address, { takeProfit: price })
+                  }
+                />
+              )}
+            </div>
           ))}
         </div>
 
+        {/* Open Orders */}
+        <OpenOrders
+          orders={orders}
+          tokens={cardTokens}
+          onSubmit={handleSubmitOrder}
+          onAmend={handleAmendLimitOrder}
+          onCancel={handleCancelOrder}
+        />
+
+        {/* Strategies */}
+        <StrategyPanel
+          tokens={cardTokens}
+          strategies={STRATEGIES}
+          running={strategyRunner.running}
+          decisions={strategyRunner.decisions}
+          onStart={strategyRunner.start}
+          onStop={strategyRunner.stop}
+          onClearLog={strategyRunner.clearLog}
+        />
+
+        {/* Alerts */}
+        <AlertsPanel
+          tokens={alertTokens}
+          alerts={alerts}
+          notifications={notificationState}
+          onEnableNotifications={handleEnableNotifications}
+          onCreate={handleCreateAlert}
+          onToggle={handleToggleAlert}
+          onRemove={handleRemoveAlert}
+        />
+
+        {/* Order Sizing */}
+        <OrderPresetsPanel presets={orderPresets} onChange={setOrderPresets} />
+
+        {/* Risk */}
+        <RiskSettingsPanel settings={riskSettings} onChange={setRiskSettings} />
+
+        {/* Fees */}
+        <FeeSettingsPanel
+          settings={feeSettings}
+          tokens={tokens}
+          onChange={setFeeSettings}
+        />
+
+        {/* Equity */}
+        <EquityChart samples={equityHistory} trades={trades} />
+
+        {/* Cost Basis */}
+        <CostBasisPanel
+          tokens={tokens}
+          method={costBasisMethod}
+          onChange={handleCostBasisChange}
+        />
+
+        {/* Analytics */}
+        <AnalyticsPanel analytics={analytics} />
+
+        {/* Archived Runs */}
+        <ArchivedRuns runs={accountIndex.archivedRuns} />
+
         {/* Trade History */}
-        <TradeHistory trades={trades} />
+        <TradeHistory
+          trades={trades}
+          onExport={handleExportTrades}
+          onImport={handleImportTrades}
+        />
       </div>
     </div>
   );
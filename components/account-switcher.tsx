@@ -0,0 +1,128 @@
+// components/account-switcher.tsx
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatCurrency, validateNumber } from "@/lib/utils";
+import { DEFAULT_STARTING_BALANCE, type Account } from "@/lib/accounts";
+import { Archive, Plus, RotateCcw } from "lucide-react";
+
+interface AccountSwitcherProps {
+  accounts: Account[];
+  activeAccountId: string;
+  onSwitch: (accountId: string) => void;
+  // Returns an error message, or null once the account is created.
+  onCreate: (name: string, startingBalance: number) => Promise<string | null>;
+  onReset: () => void;
+  onArchive: () => void;
+}
+
+export function AccountSwitcher({
+  accounts,
+  activeAccountId,
+  onSwitch,
+  onCreate,
+  onReset,
+  onArchive,
+}: AccountSwitcherProps) {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [startingBalance, setStartingBalance] = useState(
+    String(DEFAULT_STARTING_BALANCE)
+  );
+  const [error, setError] = useState("");
+
+  const create = async () => {
+    const message = await onCreate(name, validateNumber(startingBalance));
+    if (message) {
+      setError(message);
+      return;
+    }
+    setCreating(false);
+    setName("");
+    setStartingBalance(String(DEFAULT_STARTING_BALANCE));
+    setError("");
+  };
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <select
+        value={activeAccountId}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="h-9 rounded-md border border-input bg-slate-900 px-2 text-sm text-white"
+        title="Paper account"
+      >
+        {accounts.map((account) => (
+          <option key={account.id} value={account.id}>
+            {account.name} ({formatCurrency(account.startingBalance, 0)})
+          </option>
+        ))}
+      </select>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="text-white"
+        onClick={() => setCreating((open) => !open)}
+        title="New account"
+      >
+        <Plus className="w-4 h-4" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="text-white"
+        onClick={onReset}
+        title="Reset to starting balance"
+      >
+        <RotateCcw className="w-4 h-4" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="text-white"
+        onClick={onArchive}
+        title="Archive this run and start over"
+      >
+        <Archive className="w-4 h-4" />
+      </Button>
+
+      {creating && (
+        <div className="absolute left-0 top-11 z-10 w-72 space-y-2 rounded-md border border-slate-700 bg-slate-900 p-3 shadow-lg">
+          <Input
+            placeholder="Account name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="text-white"
+          />
+          <div>
+            <label className="text-sm text-slate-400">
+              Starting balance ($)
+            </label>
+            <Input
+              type="number"
+              min={0}
+              value={startingBalance}
+              onChange={(e) => setStartingBalance(e.target.value)}
+              className="text-white"
+            />
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => {
+                setCreating(false);
+                setError("");
+              }}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" onClick={create}>
+              Create
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// components/alert-feed.tsx
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { formatCurrency } from "@/lib/utils";
+import type { AlertEvent } from "@/lib/alerts";
+
+interface AlertFeedProps {
+  events: AlertEvent[];
+  onClear: () => void;
+}
+
+export function AlertFeed({ events, onClear }: AlertFeedProps) {
+  if (events.length === 0) return null;
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold text-white">Alert Feed</h3>
+        <Button size="sm" variant="secondary" onClick={onClear}>
+          Clear
+        </Button>
+      </div>
+      <ScrollArea className="h-[160px] pr-4">
+        <div className="space-y-1">
+          {events.map((event) => (
+            <div
+              key={event.id}
+              className="flex items-start justify-between gap-2 text-sm"
+            >
+              <div>
+                <span className="font-medium text-white">{event.symbol}</span>{" "}
+                <span className="text-slate-300">{event.message}</span>
+              </div>
+              <div className="text-right text-slate-400 whitespace-nowrap">
+                <p>{formatCurrency(event.price, 6)}</p>
+                <p className="text-xs">
+                  {new Date(event.timestamp).toLocaleTimeString()}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </Card>
+  );
+}
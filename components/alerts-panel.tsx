@@ -0,0 +1,265 @@
+// components/alerts-panel.tsx
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { validateNumber } from "@/lib/utils";
+import {
+  describeCondition,
+  type Alert,
+  type AlertCondition,
+  type AlertKind,
+} from "@/lib/alerts";
+import type { NotificationState } from "@/lib/notifications";
+import type { ChainId } from "@/lib/chains";
+import { Bell, BellOff, Trash2 } from "lucide-react";
+
+export interface AlertToken {
+  address: string;
+  chainId: ChainId;
+  symbol: string;
+}
+
+interface AlertsPanelProps {
+  tokens: AlertToken[];
+  alerts: Alert[];
+  notifications: NotificationState;
+  onEnableNotifications: () => void;
+  // Returns an error message, or null once the alert is created.
+  onCreate: (token: AlertToken, condition: AlertCondition) => string | null;
+  onToggle: (alertId: string, enabled: boolean) => void;
+  onRemove: (alertId: string) => void;
+}
+
+const KIND_LABELS: Record<AlertKind, string> = {
+  "price-cross": "Price crosses",
+  "percent-move": "Percent move",
+  "volume-spike": "5m volume spike",
+  "liquidity-drop": "Liquidity drop",
+  "ratio-flip": "Buy/sell flip",
+};
+
+const VALUE_LABELS: Record<AlertKind, string | null> = {
+  "price-cross": "Price ($)",
+  "percent-move": "Move (%)",
+  "volume-spike": "Multiple (x)",
+  "liquidity-drop": "Drop (%)",
+  "ratio-flip": null,
+};
+
+function buildCondition(
+  kind: AlertKind,
+  direction: "above" | "below",
+  value: number,
+  windowMinutes: number
+): AlertCondition {
+  switch (kind) {
+    case "price-cross":
+      return { kind, direction, price: value };
+    case "percent-move":
+    case "liquidity-drop":
+      return { kind, percent: value, windowMinutes };
+    case "volume-spike":
+      return { kind, multiple: value };
+    case "ratio-flip":
+      return { kind };
+  }
+}
+
+function NotificationButton({
+  state,
+  onEnable,
+}: {
+  state: NotificationState;
+  onEnable: () => void;
+}) {
+  if (state === "unsupported") {
+    return (
+      <span className="text-xs text-slate-500">
+        Browser notifications unavailable
+      </span>
+    );
+  }
+  if (state === "granted") {
+    return (
+      <span className="flex items-center gap-1 text-xs text-green-500">
+        <Bell className="w-3 h-3" /> Notifications on
+      </span>
+    );
+  }
+  if (state === "denied") {
+    return (
+      <span
+        className="flex items-center gap-1 text-xs text-slate-500"
+        title="Allow notifications for this site in your browser settings"
+      >
+        <BellOff className="w-3 h-3" /> Notifications blocked
+      </span>
+    );
+  }
+  return (
+    <Button size="sm" variant="secondary" onClick={onEnable}>
+      <Bell className="w-4 h-4 mr-1" /> Enable notifications
+    </Button>
+  );
+}
+
+export function AlertsPanel({
+  tokens,
+  alerts,
+  notifications,
+  onEnableNotifications,
+  onCreate,
+  onToggle,
+  onRemove,
+}: AlertsPanelProps) {
+  const [address, setAddress] = useState("");
+  const [kind, setKind] = useState<AlertKind>("price-cross");
+  const [direction, setDirection] = useState<"above" | "below">("above");
+  const [value, setValue] = useState("");
+  const [windowMinutes, setWindowMinutes] = useState("15");
+  const [error, setError] = useState("");
+
+  const selected =
+    tokens.find((t) => t.address === address) ?? tokens[0] ?? null;
+  const hasWindow = kind === "percent-move" || kind === "liquidity-drop";
+
+  const create = () => {
+    if (!selected) return;
+    const message = onCreate(
+      selected,
+      buildCondition(
+        kind,
+        direction,
+        validateNumber(value),
+        validateNumber(windowMinutes)
+      )
+    );
+    if (message) {
+      setError(message);
+      return;
+    }
+    setValue("");
+    setError("");
+  };
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-white">Alerts</h3>
+        <NotificationButton
+          state={notifications}
+          onEnable={onEnableNotifications}
+        />
+      </div>
+
+      {tokens.length === 0 ? (
+        <p className="text-sm text-slate-400 mb-4">
+          Add a token to set alerts on it
+        </p>
+      ) : (
+        <div className="flex flex-wrap items-end gap-2 mb-4 text-sm">
+          <select
+            value={selected?.address}
+            onChange={(e) => setAddress(e.target.value)}
+            className="h-9 rounded-md border border-input bg-slate-800 px-2 text-white"
+          >
+            {tokens.map((token) => (
+              <option key={token.address} value={token.address}>
+                {token.symbol}
+              </option>
+            ))}
+          </select>
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AlertKind)}
+            className="h-9 rounded-md border border-input bg-slate-800 px-2 text-white"
+          >
+            {(Object.keys(KIND_LABELS) as AlertKind[]).map((k) => (
+              <option key={k} value={k}>
+                {KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+          {kind === "price-cross" && (
+            <select
+              value={direction}
+              onChange={(e) =>
+                setDirection(e.target.value as "above" | "below")
+              }
+              className="h-9 rounded-md border border-input bg-slate-800 px-2 text-white"
+            >
+              <option value="above">above</option>
+              <option value="below">below</option>
+            </select>
+          )}
+          {VALUE_LABELS[kind] && (
+            <div className="w-28">
+              <label className="text-slate-400">{VALUE_LABELS[kind]}</label>
+              <Input
+                type="number"
+                min={0}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className="text-white"
+              />
+            </div>
+          )}
+          {hasWindow && (
+            <div className="w-28">
+              <label className="text-slate-400">Window (min)</label>
+              <Input
+                type="number"
+                min={1}
+                value={windowMinutes}
+                onChange={(e) => setWindowMinutes(e.target.value)}
+                className="text-white"
+              />
+            </div>
+          )}
+          <Button onClick={create}>Add Alert</Button>
+          {error && <p className="w-full text-red-500">{error}</p>}
+        </div>
+      )}
+
+      {alerts.length === 0 ? (
+        <p className="text-sm text-slate-400">No alerts set</p>
+      ) : (
+        <div className="space-y-2">
+          {alerts.map((alert) => (
+            <div
+              key={alert.id}
+              className="flex items-center gap-2 p-2 bg-slate-800 rounded-lg text-sm"
+            >
+              <Switch
+                checked={alert.enabled}
+                onCheckedChange={(enabled) => onToggle(alert.id, enabled)}
+              />
+              <span className="w-20 font-medium text-white">
+                {alert.symbol}
+              </span>
+              <span className="flex-1 text-slate-300">
+                {describeCondition(alert.condition)}
+              </span>
+              {alert.lastTriggeredAt && (
+                <span className="text-xs text-slate-500">
+                  Last: {new Date(alert.lastTriggeredAt).toLocaleTimeString()}
+                </span>
+              )}
+              <Button
+                size="icon"
+                variant="ghost"
+                className="text-slate-400"
+                onClick={() => onRemove(alert.id)}
+                title="Delete alert"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+// components/analytics-panel.tsx
+import { Card } from "@/components/ui/card";
+import { formatCurrency } from "@/lib/utils";
+import type { PerformanceAnalytics } from "@/lib/analytics";
+
+interface AnalyticsPanelProps {
+  analytics: PerformanceAnalytics;
+}
+
+function formatRatio(value: number) {
+  return isFinite(value) ? value.toFixed(2) : "∞";
+}
+
+function pnlClass(value: number) {
+  return value >= 0 ? "text-green-500" : "text-red-500";
+}
+
+export function AnalyticsPanel({ analytics }: AnalyticsPanelProps) {
+  const stats: { label: string; value: string; className?: string }[] = [
+    {
+      label: "Realized P/L",
+      value: formatCurrency(analytics.realizedPnL),
+      className: pnlClass(analytics.realizedPnL),
+    },
+    {
+      label: "Win Rate",
+      value: `${analytics.winRate.toFixed(1)}% (${analytics.wins}W / ${
+        analytics.losses
+      }L)`,
+    },
+    {
+      label: "Avg Win / Loss",
+      value: `${formatCurrency(analytics.averageWin)} / ${formatCurrency(
+        analytics.averageLoss
+      )}`,
+    },
+    { label: "Profit Factor", value: formatRatio(analytics.profitFactor) },
+    {
+      label: "Expectancy",
+      value: formatCurrency(analytics.expectancy),
+      className: pnlClass(analytics.expectancy),
+    },
+    {
+      label: "Max Drawdown",
+      value: `${formatCurrency(
+        analytics.maxDrawdown
+      )} (${analytics.maxDrawdownPercent.toFixed(2)}%)`,
+      className: analytics.maxDrawdown > 0 ? "text-red-500" : undefined,
+    },
+    {
+      label: "Sharpe / Sortino",
+      value:
+        analytics.sharpeRatio === null || analytics.sortinoRatio === null
+          ? "-"
+          : `${formatRatio(analytics.sharpeRatio)} / ${formatRatio(
+              analytics.sortinoRatio
+            )}`,
+    },
+    {
+      label: "Longest Losing Streak",
+      value: analytics.longestLosingStreak.toString(),
+    },
+  ];
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <h3 className="text-lg font-bold text-white mb-4">Performance</h3>
+
+      {analytics.totalTrades === 0 ? (
+        <p className="text-sm text-slate-400">No trades yet</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+            {stats.map((stat) => (
+              <div key={stat.label} className="p-2 bg-slate-800 rounded-lg">
+                <p className="text-xs text-slate-400">{stat.label}</p>
+                <p
+                  className={`text-sm font-medium ${
+                    stat.className ?? "text-white"
+                  }`}
+                >
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400">
+                  <th className="py-1 font-normal">Token</th>
+                  <th className="py-1 font-normal text-right">Trades</th>
+                  <th className="py-1 font-normal text-right">Win Rate</th>
+                  <th className="py-1 font-normal text-right">Realized</th>
+                  <th className="py-1 font-normal text-right">Unrealized</th>
+                  <th className="py-1 font-normal text-right">Profit Factor</th>
+                  <th className="py-1 font-normal text-right">Fees</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.tokens.map((token) => (
+                  <tr
+                    key={token.address}
+                    className="border-t border-slate-800 text-white"
+                  >
+                    <td className="py-1">{token.symbol}</td>
+                    <td className="py-1 text-right">{token.trades}</td>
+                    <td className="py-1 text-right">
+                      {token.closedTrades > 0
+                        ? `${token.winRate.toFixed(1)}%`
+                        : "-"}
+                    </td>
+                    <td
+                      className={`py-1 text-right ${pnlClass(
+                        token.realizedPnL
+                      )}`}
+                    >
+                      {formatCurrency(token.realizedPnL)}
+                    </td>
+                    <td
+                      className={`py-1 text-right ${pnlClass(
+                        token.unrealizedPnL
+                      )}`}
+                    >
+                      {formatCurrency(token.unrealizedPnL)}
+                    </td>
+                    <td className="py-1 text-right">
+                      {token.closedTrades > 0
+                        ? formatRatio(token.profitFactor)
+                        : "-"}
+                    </td>
+                    <td className="py-1 text-right text-slate-400">
+                      {formatCurrency(token.totalFees)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+// components/api-status.tsx
+import { useEffect, useState } from "react";
+import {
+  dexScreenerService,
+  type ApiEndpoint,
+  type BackoffSnapshot,
+  type BackoffState,
+} from "@/services/dexscreener-service";
+import { AlertTriangle } from "lucide-react";
+
+// Shows which API endpoints are backing off and when they retry.
+export function ApiStatus() {
+  const [backoff, setBackoff] = useState<BackoffSnapshot>(() =>
+    dexScreenerService.getBackoffState()
+  );
+  // retryAt is on the service clock, which may not be the wall clock.
+  const [now, setNow] = useState(() => dexScreenerService.now());
+
+  useEffect(() => dexScreenerService.addBackoffListener(setBackoff), []);
+
+  const entries = Object.entries(backoff).filter(
+    (entry): entry is [ApiEndpoint, BackoffState] => entry[1] !== undefined
+  );
+  const active = entries.length > 0;
+
+  // Ticks the countdown only while something is backing off.
+  useEffect(() => {
+    if (!active) return;
+    setNow(dexScreenerService.now());
+    const timer = setInterval(() => setNow(dexScreenerService.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+
+  if (!active) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-sm text-amber-400">
+      <AlertTriangle className="w-4 h-4" />
+      {entries.map(([endpoint, state]) => {
+        const seconds = Math.max(0, Math.ceil((state.retryAt - now) / 1000));
+        return (
+          <span
+            key={endpoint}
+            title={`${state.failures} failed request${
+              state.failures === 1 ? "" : "s"
+            } in a row`}
+          >
+            {endpoint} {state.status === 429 ? "rate limited" : "unavailable"},
+            retrying in {seconds}s
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+// components/archived-runs.tsx
+import { Card } from "@/components/ui/card";
+import { formatCurrency } from "@/lib/utils";
+import type { ArchivedRun } from "@/lib/accounts";
+
+interface ArchivedRunsProps {
+  runs: ArchivedRun[];
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleDateString();
+}
+
+export function ArchivedRuns({ runs }: ArchivedRunsProps) {
+  if (runs.length === 0) return null;
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <h3 className="text-lg font-bold text-white mb-4">Archived Runs</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="text-left font-normal">Account</th>
+              <th className="text-left font-normal">Period</th>
+              <th className="text-right font-normal">Start</th>
+              <th className="text-right font-normal">Final Equity</th>
+              <th className="text-right font-normal">Return</th>
+              <th className="text-right font-normal">Trades</th>
+              <th className="text-right font-normal">Win Rate</th>
+              <th className="text-right font-normal">Max DD</th>
+              <th className="text-right font-normal">Sharpe</th>
+            </tr>
+          </thead>
+          <tbody className="text-white">
+            {runs.map((run) => (
+              <tr key={run.id} className="border-t border-slate-800">
+                <td className="py-2">{run.accountName}</td>
+                <td className="text-slate-400">
+                  {formatDate(run.startedAt)} – {formatDate(run.archivedAt)}
+                </td>
+                <td className="text-right">
+                  {formatCurrency(run.startingBalance)}
+                </td>
+                <td className="text-right">
+                  {formatCurrency(run.finalEquity)}
+                </td>
+                <td
+                  className={`text-right ${
+                    run.returnPercent >= 0 ? "text-green-500" : "text-red-500"
+                  }`}
+                >
+                  {run.returnPercent >= 0 ? "+" : ""}
+                  {run.returnPercent.toFixed(2)}%
+                </td>
+                <td className="text-right">{run.tradeCount}</td>
+                <td className="text-right">{run.winRate.toFixed(1)}%</td>
+                <td className="text-right text-red-500">
+                  {run.maxDrawdownPercent.toFixed(2)}%
+                </td>
+                <td className="text-right">
+                  {run.sharpeRatio === null
+                    ? "-"
+                    : isFinite(run.sharpeRatio)
+                    ? run.sharpeRatio.toFixed(2)
+                    : "∞"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
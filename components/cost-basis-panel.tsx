@@ -0,0 +1,154 @@
+// components/cost-basis-panel.tsx
+import { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/utils";
+import {
+  calculateLotPnL,
+  COST_BASIS_METHODS,
+  getLotCostPerToken,
+  type CostBasisMethod,
+} from "@/lib/cost-basis";
+import type { TokenPosition } from "@/lib/types";
+
+interface CostBasisPanelProps {
+  tokens: TokenPosition[];
+  method: CostBasisMethod;
+  onChange: (method: CostBasisMethod) => void;
+}
+
+const METHODS = Object.keys(COST_BASIS_METHODS) as CostBasisMethod[];
+
+function pnlClass(value: number) {
+  return value >= 0 ? "text-green-500" : "text-red-500";
+}
+
+export function CostBasisPanel({
+  tokens,
+  method,
+  onChange,
+}: CostBasisPanelProps) {
+  const positions = useMemo(
+    () =>
+      tokens
+        .filter((token) => token.trades.length > 0)
+        .map((token) => ({
+          token,
+          byMethod: Object.fromEntries(
+            METHODS.map((m) => [
+              m,
+              calculateLotPnL(token.trades, token.currentPrice, m),
+            ])
+          ) as Record<CostBasisMethod, ReturnType<typeof calculateLotPnL>>,
+        })),
+    [tokens]
+  );
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-bold text-white">Cost Basis</h3>
+        <div className="flex gap-1">
+          {METHODS.map((m) => (
+            <Button
+              key={m}
+              size="sm"
+              variant={method === m ? "default" : "secondary"}
+              onClick={() => onChange(m)}
+            >
+              {COST_BASIS_METHODS[m]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {positions.length === 0 ? (
+        <p className="text-sm text-slate-400">No positions yet</p>
+      ) : (
+        <div className="space-y-4">
+          {positions.map(({ token, byMethod }) => {
+            const lots = byMethod[method].openLots;
+            return (
+              <div key={token.address} className="space-y-2 text-sm">
+                <p className="font-medium text-white">{token.symbol}</p>
+
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-slate-400">
+                      <th className="py-1 font-normal">Method</th>
+                      <th className="py-1 font-normal text-right">Realized</th>
+                      <th className="py-1 font-normal text-right">
+                        Unrealized
+                      </th>
+                      <th className="py-1 font-normal text-right">Avg Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {METHODS.map((m) => (
+                      <tr
+                        key={m}
+                        className={
+                          m === method ? "text-white" : "text-slate-400"
+                        }
+                      >
+                        <td className="py-0.5">{COST_BASIS_METHODS[m]}</td>
+                        <td
+                          className={`py-0.5 text-right ${pnlClass(
+                            byMethod[m].realizedPnL
+                          )}`}
+                        >
+                          {formatCurrency(byMethod[m].realizedPnL)}
+                        </td>
+                        <td
+                          className={`py-0.5 text-right ${pnlClass(
+                            byMethod[m].unrealizedPnL
+                          )}`}
+                        >
+                          {formatCurrency(byMethod[m].unrealizedPnL)}
+                        </td>
+                        <td className="py-0.5 text-right">
+                          ${byMethod[m].averageCost.toFixed(6)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {lots.length > 0 && (
+                  <div>
+                    <p className="text-slate-400 mb-1">
+                      Open lots ({COST_BASIS_METHODS[method]})
+                    </p>
+                    <div className="space-y-1">
+                      {lots.map((lot) => {
+                        const unrealized =
+                          lot.quantity * token.currentPrice - lot.cost;
+                        return (
+                          <div
+                            key={lot.tradeId}
+                            className="flex justify-between p-2 bg-slate-800 rounded-lg"
+                          >
+                            <span className="text-slate-400">
+                              {new Date(lot.acquiredAt).toLocaleString()}
+                            </span>
+                            <span className="text-white">
+                              {lot.quantity.toFixed(6)} @ $
+                              {getLotCostPerToken(lot).toFixed(6)}
+                            </span>
+                            <span className={pnlClass(unrealized)}>
+                              {formatCurrency(unrealized)}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+// components/data-source-selector.tsx
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { dexScreenerService } from "@/services/dexscreener-service";
+import { replayService } from "@/services/replay-service";
+import { FixtureProvider } from "@/services/fixture-provider";
+import { parseRecording } from "@/lib/recording";
+import {
+  MARKET_DATA_SOURCES,
+  type MarketDataSource,
+} from "@/services/market-data-sources";
+
+interface DataSourceSelectorProps {
+  // Called with the recorded token addresses once a fixture is loaded.
+  onFixtureLoaded: (addresses: string[]) => void;
+}
+
+export function DataSourceSelector({
+  onFixtureLoaded,
+}: DataSourceSelectorProps) {
+  const [source, setSource] = useState<MarketDataSource | "fixture">("live");
+  const [error, setError] = useState("");
+  const [isReplaying, setIsReplaying] = useState(
+    replayService.getState().loaded
+  );
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(
+    () => replayService.subscribe((state) => setIsReplaying(state.loaded)),
+    []
+  );
+
+  const selectSource = (next: MarketDataSource) => {
+    if (next === source) return;
+    dexScreenerService.setProvider(MARKET_DATA_SOURCES[next].create());
+    setSource(next);
+    setError("");
+  };
+
+  // Unlike a replay, a fixture is polled like the live API, with recording
+  // time running alongside the wall clock.
+  const loadFixture = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setError("");
+      const recording = parseRecording(await file.text());
+      if (recording.ticks.length === 0) {
+        throw new Error("Recording has no ticks");
+      }
+      dexScreenerService.setProvider(new FixtureProvider(recording));
+      setSource("fixture");
+      onFixtureLoaded(recording.header.addresses);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load fixture");
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      {(Object.keys(MARKET_DATA_SOURCES) as MarketDataSource[]).map((key) => (
+        <Button
+          key={key}
+          size="sm"
+          variant={source === key ? "default" : "secondary"}
+          onClick={() => selectSource(key)}
+          disabled={isReplaying}
+        >
+          {MARKET_DATA_SOURCES[key].label}
+        </Button>
+      ))}
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".ndjson,.jsonl,application/x-ndjson"
+        className="hidden"
+        onChange={(e) => loadFixture(e.target.files?.[0])}
+      />
+      <Button
+        size="sm"
+        variant={source === "fixture" ? "default" : "secondary"}
+        onClick={() => fileInput.current?.click()}
+        disabled={isReplaying}
+        title="Serve a recording as if it were the live API"
+      >
+        Fixture
+      </Button>
+      {error && <span className="text-sm text-red-500">{error}</span>}
+    </div>
+  );
+}
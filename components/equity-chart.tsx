@@ -0,0 +1,148 @@
+// components/equity-chart.tsx
+import { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import {
+  Area,
+  ComposedChart,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { formatCurrency } from "@/lib/utils";
+import type { EquityPoint } from "@/lib/equity";
+import type { Trade } from "@/lib/types";
+
+interface EquityChartProps {
+  samples: EquityPoint[];
+  trades: Trade[];
+}
+
+interface TradeMarker {
+  timestamp: number;
+  equity: number;
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function EquityChart({ samples, trades }: EquityChartProps) {
+  // Trades are pinned to the equity of the sample taken at or just after the
+  // fill, which is where the fill shows up in the curve.
+  const markers = useMemo(() => {
+    const buys: TradeMarker[] = [];
+    const sells: TradeMarker[] = [];
+    if (samples.length === 0) return { buys, sells };
+
+    const start = samples[0].timestamp;
+    const end = samples[samples.length - 1].timestamp;
+    for (const trade of trades) {
+      if (trade.timestamp < start || trade.timestamp > end) continue;
+      const sample =
+        samples.find((s) => s.timestamp >= trade.timestamp) ??
+        samples[samples.length - 1];
+      const marker = { timestamp: trade.timestamp, equity: sample.equity };
+      (trade.type === "buy" ? buys : sells).push(marker);
+    }
+    return { buys, sells };
+  }, [samples, trades]);
+
+  const latest = samples[samples.length - 1];
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-white">Equity</h3>
+        {latest && (
+          <div className="flex gap-4 text-sm">
+            <span className="text-slate-400">
+              Cash{" "}
+              <span className="text-white">{formatCurrency(latest.cash)}</span>
+            </span>
+            <span className="text-slate-400">
+              Positions{" "}
+              <span className="text-white">
+                {formatCurrency(latest.positions)}
+              </span>
+            </span>
+          </div>
+        )}
+      </div>
+
+      {samples.length < 2 ? (
+        <p className="text-sm text-slate-400">
+          Collecting samples from price updates…
+        </p>
+      ) : (
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={samples}>
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatTime}
+                stroke="#64748b"
+                fontSize={12}
+              />
+              <YAxis
+                domain={["auto", "auto"]}
+                tickFormatter={(v: number) => formatCurrency(v, 0)}
+                stroke="#64748b"
+                fontSize={12}
+                width={60}
+              />
+              <Tooltip
+                contentStyle={{ background: "#0f172a", border: "none" }}
+                labelFormatter={(v: number) => new Date(v).toLocaleString()}
+                formatter={(value: number, name: string) => [
+                  formatCurrency(value),
+                  name,
+                ]}
+              />
+              <Area
+                type="monotone"
+                dataKey="cash"
+                name="Cash"
+                stackId="equity"
+                stroke="#3b82f6"
+                fill="#3b82f6"
+                fillOpacity={0.3}
+                isAnimationActive={false}
+              />
+              <Area
+                type="monotone"
+                dataKey="positions"
+                name="Positions"
+                stackId="equity"
+                stroke="#a855f7"
+                fill="#a855f7"
+                fillOpacity={0.3}
+                isAnimationActive={false}
+              />
+              <Scatter
+                data={markers.buys}
+                dataKey="equity"
+                name="Buy"
+                fill="#22c55e"
+                isAnimationActive={false}
+              />
+              <Scatter
+                data={markers.sells}
+                dataKey="equity"
+                name="Sell"
+                fill="#ef4444"
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+// components/fee-settings.tsx
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { validateNumber } from "@/lib/utils";
+import { getTokenTax, type FeeSettings, type TokenTax } from "@/lib/fees";
+import type { TokenPosition } from "@/lib/types";
+
+interface FeeSettingsPanelProps {
+  settings: FeeSettings;
+  tokens: TokenPosition[];
+  onChange: (settings: FeeSettings) => void;
+}
+
+export function FeeSettingsPanel({
+  settings,
+  tokens,
+  onChange,
+}: FeeSettingsPanelProps) {
+  const updateTax = (address: string, side: keyof TokenTax, value: string) => {
+    const key = address.toLowerCase();
+    onChange({
+      ...settings,
+      tokenTaxes: {
+        ...settings.tokenTaxes,
+        [key]: {
+          ...getTokenTax(settings, key),
+          [side]: Math.max(0, validateNumber(value)),
+        },
+      },
+    });
+  };
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <h3 className="text-lg font-bold text-white mb-4">Fees</h3>
+      <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
+        <div>
+          <label className="text-slate-400">Network Fee ($)</label>
+          <Input
+            type="number"
+            min={0}
+            step="0.001"
+            value={settings.networkFee}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                networkFee: Math.max(0, validateNumber(e.target.value)),
+              })
+            }
+            className="text-white"
+          />
+        </div>
+        <div>
+          <label className="text-slate-400">Priority Fee ($)</label>
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            value={settings.priorityFee}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                priorityFee: Math.max(0, validateNumber(e.target.value)),
+              })
+            }
+            className="text-white"
+          />
+        </div>
+      </div>
+
+      {tokens.length > 0 && (
+        <div className="space-y-2 text-sm">
+          <p className="text-slate-400">Token Taxes (%)</p>
+          {tokens.map((token) => {
+            const tax = getTokenTax(settings, token.address);
+            return (
+              <div
+                key={token.address}
+                className="grid grid-cols-3 gap-2 items-center"
+              >
+                <span className="text-white font-medium">{token.symbol}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Buy"
+                  value={tax.buy || ""}
+                  onChange={(e) =>
+                    updateTax(token.address, "buy", e.target.value)
+                  }
+                  className="text-white"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Sell"
+                  value={tax.sell || ""}
+                  onChange={(e) =>
+                    updateTax(token.address, "sell", e.target.value)
+                  }
+                  className="text-white"
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
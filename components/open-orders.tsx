@@ -0,0 +1,305 @@
+// components/open-orders.tsx
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Check, Pencil, X } from "lucide-react";
+import { validateNumber } from "@/lib/utils";
+import type { LimitOrderDraft, OrderDraft } from "@/lib/orders";
+import type { Order, TokenPosition } from "@/lib/types";
+
+interface OpenOrdersProps {
+  orders: Order[];
+  tokens: TokenPosition[];
+  onSubmit: (draft: OrderDraft) => boolean;
+  onAmend: (
+    orderId: string,
+    changes: Pick<LimitOrderDraft, "limitPrice" | "size">
+  ) => boolean;
+  onCancel: (orderId: string) => void;
+}
+
+type OrderKind = Order["kind"];
+
+const KIND_LABELS: Record<OrderKind, string> = {
+  limit: "Limit",
+  "trailing-stop": "Trailing",
+  bracket: "Bracket",
+};
+
+function formatSize(order: Order) {
+  return order.type === "buy"
+    ? `$${order.size.toFixed(2)}`
+    : `${order.size.toFixed(6)} ${order.symbol}`;
+}
+
+function describeOrder(order: Order) {
+  switch (order.kind) {
+    case "limit":
+      return `@ $${order.limitPrice.toFixed(6)}`;
+    case "trailing-stop":
+      return `stop $${order.stopPrice.toFixed(6)} (${
+        order.trailMode === "percent"
+          ? `${order.trailDistance}%`
+          : `$${order.trailDistance}`
+      } trail)`;
+    case "bracket":
+      return `SL $${order.stopPrice.toFixed(
+        6
+      )} / TP $${order.takeProfitPrice.toFixed(6)}`;
+  }
+}
+
+export function OpenOrders({
+  orders,
+  tokens,
+  onSubmit,
+  onAmend,
+  onCancel,
+}: OpenOrdersProps) {
+  const [address, setAddress] = useState<string>("");
+  const [kind, setKind] = useState<OrderKind>("limit");
+  const [type, setType] = useState<"buy" | "sell">("buy");
+  const [trailMode, setTrailMode] = useState<"percent" | "absolute">("percent");
+  const [priceA, setPriceA] = useState<string>("");
+  const [priceB, setPriceB] = useState<string>("");
+  const [size, setSize] = useState<string>("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editPrice, setEditPrice] = useState<string>("");
+  const [editSize, setEditSize] = useState<string>("");
+
+  const selectedAddress = address || tokens[0]?.address || "";
+  // Trailing stops and brackets protect existing holdings, so they only sell.
+  const side = kind === "limit" ? type : "sell";
+
+  const buildDraft = (): OrderDraft => {
+    const base = { address: selectedAddress, size: validateNumber(size) };
+    switch (kind) {
+      case "limit":
+        return {
+          ...base,
+          kind,
+          type,
+          limitPrice: validateNumber(priceA),
+        };
+      case "trailing-stop":
+        return {
+          ...base,
+          kind,
+          trailMode,
+          trailDistance: validateNumber(priceA),
+        };
+      case "bracket":
+        return {
+          ...base,
+          kind,
+          stopPrice: validateNumber(priceA),
+          takeProfitPrice: validateNumber(priceB),
+        };
+    }
+  };
+
+  const handleSubmit = () => {
+    if (onSubmit(buildDraft())) {
+      setPriceA("");
+      setPriceB("");
+      setSize("");
+    }
+  };
+
+  const startEditing = (order: Order) => {
+    if (order.kind !== "limit") return;
+    setEditingId(order.id);
+    setEditPrice(order.limitPrice.toString());
+    setEditSize(order.size.toString());
+  };
+
+  const handleAmend = (orderId: string) => {
+    const amended = onAmend(orderId, {
+      limitPrice: validateNumber(editPrice),
+      size: validateNumber(editSize),
+    });
+    if (amended) setEditingId(null);
+  };
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <h3 className="text-lg font-bold text-white mb-4">Open Orders</h3>
+
+      {tokens.length > 0 && (
+        <div className="space-y-2 mb-4">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(KIND_LABELS) as OrderKind[]).map((k) => (
+              <Button
+                key={k}
+                size="sm"
+                variant={kind === k ? "default" : "secondary"}
+                onClick={() => setKind(k)}
+              >
+                {KIND_LABELS[k]}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+            <select
+              value={selectedAddress}
+              onChange={(e) => setAddress(e.target.value)}
+              className="h-9 rounded-md border border-input bg-slate-800 px-2 text-sm text-white"
+            >
+              {tokens.map((token) => (
+                <option key={token.address} value={token.address}>
+                  {token.symbol}
+                </option>
+              ))}
+            </select>
+
+            {kind === "limit" ? (
+              <div className="grid grid-cols-2 gap-1">
+                <Button
+                  variant={type === "buy" ? "default" : "secondary"}
+                  className={
+                    type === "buy" ? "bg-green-500 hover:bg-green-600" : ""
+                  }
+                  onClick={() => setType("buy")}
+                >
+                  Buy
+                </Button>
+                <Button
+                  variant={type === "sell" ? "default" : "secondary"}
+                  className={
+                    type === "sell" ? "bg-red-500 hover:bg-red-600" : ""
+                  }
+                  onClick={() => setType("sell")}
+                >
+                  Sell
+                </Button>
+              </div>
+            ) : kind === "trailing-stop" ? (
+              <div className="grid grid-cols-2 gap-1">
+                <Button
+                  variant={trailMode === "percent" ? "default" : "secondary"}
+                  onClick={() => setTrailMode("percent")}
+                >
+                  %
+                </Button>
+                <Button
+                  variant={trailMode === "absolute" ? "default" : "secondary"}
+                  onClick={() => setTrailMode("absolute")}
+                >
+                  $
+                </Button>
+              </div>
+            ) : (
+              <Input
+                type="number"
+                placeholder="Take profit ($)"
+                value={priceB}
+                onChange={(e) => setPriceB(e.target.value)}
+                className="text-white"
+              />
+            )}
+
+            <Input
+              type="number"
+              placeholder={
+                kind === "limit"
+                  ? "Limit price ($)"
+                  : kind === "trailing-stop"
+                  ? trailMode === "percent"
+                    ? "Trail (%)"
+                    : "Trail ($)"
+                  : "Stop price ($)"
+              }
+              value={priceA}
+              onChange={(e) => setPriceA(e.target.value)}
+              className="text-white"
+            />
+            <Input
+              type="number"
+              placeholder={side === "buy" ? "Amount ($)" : "Amount (tokens)"}
+              value={size}
+              onChange={(e) => setSize(e.target.value)}
+              className="text-white md:col-span-2"
+            />
+            <Button onClick={handleSubmit}>Place {KIND_LABELS[kind]}</Button>
+          </div>
+        </div>
+      )}
+
+      {orders.length === 0 ? (
+        <p className="text-sm text-slate-400">No open orders</p>
+      ) : (
+        <div className="space-y-2 max-h-[240px] overflow-y-auto">
+          {orders.map((order) => (
+            <div
+              key={order.id}
+              className="flex items-center justify-between gap-2 p-2 bg-slate-800 rounded-lg text-sm"
+            >
+              <div>
+                <p className="font-medium text-white">
+                  <span
+                    className={
+                      order.type === "buy" ? "text-green-500" : "text-red-500"
+                    }
+                  >
+                    {KIND_LABELS[order.kind]}{" "}
+                    {order.type === "buy" ? "Buy" : "Sell"}
+                  </span>{" "}
+                  {order.symbol}
+                </p>
+                <p className="text-slate-400">
+                  {new Date(order.createdAt).toLocaleString()}
+                </p>
+              </div>
+
+              {editingId === order.id ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    value={editPrice}
+                    onChange={(e) => setEditPrice(e.target.value)}
+                    className="w-28 text-white"
+                  />
+                  <Input
+                    type="number"
+                    value={editSize}
+                    onChange={(e) => setEditSize(e.target.value)}
+                    className="w-28 text-white"
+                  />
+                  <Button size="icon" onClick={() => handleAmend(order.id)}>
+                    <Check className="w-4 h-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="text-right">
+                  <p className="text-white">{describeOrder(order)}</p>
+                  <p className="text-slate-400">{formatSize(order)}</p>
+                </div>
+              )}
+
+              <div className="flex gap-1">
+                {order.kind === "limit" && editingId !== order.id && (
+                  <Button
+                    size="icon"
+                    variant="secondary"
+                    onClick={() => startEditing(order)}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  size="icon"
+                  variant="destructive"
+                  onClick={() => onCancel(order.id)}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+// components/order-presets.tsx
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  formatOrderSize,
+  parseOrderPresets,
+  type OrderPresets,
+} from "@/lib/order-sizing";
+
+interface OrderPresetsPanelProps {
+  presets: OrderPresets;
+  onChange: (presets: OrderPresets) => void;
+}
+
+type Side = keyof OrderPresets;
+
+function toText(presets: OrderPresets): Record<Side, string> {
+  return {
+    buy: presets.buy.map(formatOrderSize).join(", "),
+    sell: presets.sell.map(formatOrderSize).join(", "),
+  };
+}
+
+export function OrderPresetsPanel({
+  presets,
+  onChange,
+}: OrderPresetsPanelProps) {
+  const [text, setText] = useState(() => toText(presets));
+  const [errors, setErrors] = useState<Partial<Record<Side, boolean>>>({});
+
+  // Follow presets loaded from a saved session.
+  useEffect(() => {
+    setText(toText(presets));
+    setErrors({});
+  }, [presets]);
+
+  const commit = (side: Side) => {
+    const parsed = parseOrderPresets(text[side]);
+    if (!parsed || parsed.length === 0) {
+      setErrors((prev) => ({ ...prev, [side]: true }));
+      return;
+    }
+    setErrors((prev) => ({ ...prev, [side]: false }));
+    onChange({ ...presets, [side]: parsed });
+  };
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <h3 className="text-lg font-bold text-white mb-1">Quick Sizes</h3>
+      <p className="text-sm text-slate-400 mb-4">
+        Comma-separated: $100 for dollars, 25% of cash (buys) or holdings
+        (sells), or a plain number of tokens.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        {(["buy", "sell"] as const).map((side) => (
+          <div key={side}>
+            <label className="text-slate-400">
+              {side === "buy" ? "Buy presets" : "Sell presets"}
+            </label>
+            <Input
+              value={text[side]}
+              onChange={(e) =>
+                setText((prev) => ({ ...prev, [side]: e.target.value }))
+              }
+              onBlur={() => commit(side)}
+              onKeyDown={(e) => e.key === "Enter" && commit(side)}
+              className="text-white"
+            />
+            {errors[side] && (
+              <p className="text-red-500 mt-1">
+                Use sizes like $100, 25% or 1000
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
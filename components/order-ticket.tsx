@@ -0,0 +1,114 @@
+// components/order-ticket.tsx
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { validateNumber } from "@/lib/utils";
+import {
+  formatOrderSize,
+  type OrderSize,
+  type SizeUnit,
+} from "@/lib/order-sizing";
+import { ArrowUp, ArrowDown } from "lucide-react";
+
+interface OrderTicketProps {
+  buyPresets: OrderSize[];
+  sellPresets: OrderSize[];
+  holdings: number;
+  disabled?: boolean;
+  onOrder: (type: "buy" | "sell", size: OrderSize) => void;
+}
+
+const UNIT_LABELS: Record<SizeUnit, string> = {
+  usd: "USD",
+  tokens: "Tokens",
+  // Of cash for buys, of holdings for sells.
+  percent: "%",
+};
+
+export function OrderTicket({
+  buyPresets,
+  sellPresets,
+  holdings,
+  disabled,
+  onOrder,
+}: OrderTicketProps) {
+  const [value, setValue] = useState("");
+  const [unit, setUnit] = useState<SizeUnit>("usd");
+
+  const size: OrderSize = { unit, value: validateNumber(value) };
+  const invalid = !(size.value > 0) || (unit === "percent" && size.value > 100);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex flex-wrap gap-1">
+          {buyPresets.map((preset, i) => (
+            <Button
+              key={i}
+              size="sm"
+              className="flex-1 bg-green-500 hover:bg-green-600"
+              onClick={() => onOrder("buy", preset)}
+              disabled={disabled}
+            >
+              Buy {formatOrderSize(preset)}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {sellPresets.map((preset, i) => (
+            <Button
+              key={i}
+              size="sm"
+              className="flex-1 bg-red-500 hover:bg-red-600"
+              onClick={() => onOrder("sell", preset)}
+              disabled={disabled || holdings === 0}
+            >
+              Sell {formatOrderSize(preset)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min={0}
+          step="any"
+          placeholder="Amount"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="text-white"
+          disabled={disabled}
+        />
+        <select
+          value={unit}
+          onChange={(e) => setUnit(e.target.value as SizeUnit)}
+          className="h-9 rounded-md border border-input bg-slate-900 px-2 text-sm text-white"
+          disabled={disabled}
+        >
+          {Object.entries(UNIT_LABELS).map(([id, label]) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          className="bg-green-500 hover:bg-green-600"
+          onClick={() => onOrder("buy", size)}
+          disabled={disabled || invalid}
+        >
+          <ArrowUp className="w-4 h-4 mr-1" /> Buy
+        </Button>
+        <Button
+          className="bg-red-500 hover:bg-red-600"
+          onClick={() => onOrder("sell", size)}
+          disabled={disabled || invalid || holdings === 0}
+        >
+          <ArrowDown className="w-4 h-4 mr-1" /> Sell
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+// components/pair-picker.tsx
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { formatAge, formatCurrency } from "@/lib/utils";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import {
+  dexScreenerService,
+  type DexScreenerPair,
+} from "@/services/dexscreener-service";
+
+interface PairPickerProps {
+  address: string;
+  chainId?: string;
+  activePair: DexScreenerPair;
+  onSelect: (pair: DexScreenerPair) => void;
+}
+
+export function PairPicker({
+  address,
+  chainId,
+  activePair,
+  onSelect,
+}: PairPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [pairs, setPairs] = useState<DexScreenerPair[] | null>(null);
+  const [error, setError] = useState("");
+
+  const toggle = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+    setOpen(true);
+    setError("");
+    try {
+      setPairs(await dexScreenerService.fetchTokenPairs(address, chainId));
+    } catch (err) {
+      setError("Failed to load pairs");
+    }
+  };
+
+  const activeKey = activePair.pairAddress.toLowerCase();
+
+  return (
+    <div className="text-sm">
+      <button
+        className="flex items-center gap-1 text-slate-400 hover:text-white"
+        onClick={toggle}
+      >
+        {activePair.dexId} · {activePair.baseToken.symbol}/
+        {activePair.quoteToken.symbol}
+        {open ? (
+          <ChevronUp className="w-3 h-3" />
+        ) : (
+          <ChevronDown className="w-3 h-3" />
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-2 rounded-lg bg-slate-800 p-2 space-y-1">
+          {error && <p className="text-red-500">{error}</p>}
+          {!error && !pairs && <p className="text-slate-400">Loading…</p>}
+          {pairs?.length === 0 && (
+            <p className="text-slate-400">No pairs found</p>
+          )}
+          {pairs && pairs.length > 0 && (
+            <table className="w-full text-xs">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="text-left font-normal">DEX</th>
+                  <th className="text-left font-normal">Quote</th>
+                  <th className="text-right font-normal">Liquidity</th>
+                  <th className="text-right font-normal">Vol 24h</th>
+                  <th className="text-right font-normal">Age</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody className="text-white">
+                {pairs.map((pair) => {
+                  const active = pair.pairAddress.toLowerCase() === activeKey;
+                  return (
+                    <tr key={pair.pairAddress}>
+                      <td>{pair.dexId}</td>
+                      <td>{pair.quoteToken.symbol}</td>
+                      <td className="text-right">
+                        {formatCurrency(pair.liquidity?.usd ?? 0)}
+                      </td>
+                      <td className="text-right">
+                        {formatCurrency(pair.volume?.h24 ?? 0)}
+                      </td>
+                      <td className="text-right">
+                        {formatAge(pair.pairCreatedAt)}
+                      </td>
+                      <td className="text-right pl-2 py-0.5">
+                        <Button
+                          size="sm"
+                          variant={active ? "default" : "secondary"}
+                          className="h-6 px-2 text-xs"
+                          disabled={active}
+                          onClick={() => {
+                            onSelect(pair);
+                            setOpen(false);
+                          }}
+                        >
+                          {active ? "Pinned" : "Pin"}
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -17,8 +17,8 @@ interface Position {
 
 interface PositionManagementProps {
   position: Position;
-  onUpdateStopLoss: (price: number) => void;
-  onUpdateTakeProfit: (price: number) => void;
+  onUpdateStopLoss: (price: number | undefined) => void;
+  onUpdateTakeProfit: (price: number | undefined) => void;
 }
 
 export function PositionManagement({
@@ -26,20 +26,28 @@ export function PositionManagement({
   onUpdateStopLoss,
   onUpdateTakeProfit,
 }: PositionManagementProps) {
-  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showAdvanced, setShowAdvanced] = useState(
+    position.stopLoss !== undefined || position.takeProfit !== undefined
+  );
   const [stopLossPercent, setStopLossPercent] = useState("");
   const [takeProfitPercent, setTakeProfitPercent] = useState("");
 
   const handleStopLossChange = (percent: string) => {
     setStopLossPercent(percent);
-    const price = position.entryPrice * (1 - parseFloat(percent) / 100);
-    onUpdateStopLoss(price);
+    const value = parseFloat(percent);
+    onUpdateStopLoss(
+      value > 0 && value < 100
+        ? position.entryPrice * (1 - value / 100)
+        : undefined
+    );
   };
 
   const handleTakeProfitChange = (percent: string) => {
     setTakeProfitPercent(percent);
-    const price = position.entryPrice * (1 + parseFloat(percent) / 100);
-    onUpdateTakeProfit(price);
+    const value = parseFloat(percent);
+    onUpdateTakeProfit(
+      value > 0 ? position.entryPrice * (1 + value / 100) : undefined
+    );
   };
 
   return (
@@ -99,13 +107,20 @@ export function PositionManagement({
             </div>
           </div>
 
-          {position.stopLoss && (
+          {position.stopLoss !== undefined && (
             <Alert>Stop Loss set at ${position.stopLoss.toFixed(6)}</Alert>
           )}
 
-          {position.takeProfit && (
+          {position.takeProfit !== undefined && (
             <Alert>Take Profit set at ${position.takeProfit.toFixed(6)}</Alert>
           )}
+
+          {(position.stopLoss !== undefined ||
+            position.takeProfit !== undefined) && (
+            <p className="text-xs text-slate-500">
+              The full position is sold automatically when a level is crossed.
+            </p>
+          )}
         </div>
       )}
     </Card>
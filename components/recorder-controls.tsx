@@ -0,0 +1,58 @@
+// components/recorder-controls.tsx
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Circle, Download, Square } from "lucide-react";
+import { dexScreenerService } from "@/services/dexscreener-service";
+import { tickRecorder } from "@/services/tick-recorder";
+
+export function RecorderControls() {
+  const [isRecording, setIsRecording] = useState(tickRecorder.isRecording());
+  const [tickCount, setTickCount] = useState(tickRecorder.getTickCount());
+
+  useEffect(() => {
+    if (!isRecording) return;
+    return dexScreenerService.addUpdateListener(() => {
+      setTickCount(tickRecorder.getTickCount());
+    });
+  }, [isRecording]);
+
+  const toggleRecording = () => {
+    if (tickRecorder.isRecording()) {
+      tickRecorder.stop();
+    } else {
+      tickRecorder.start();
+    }
+    setIsRecording(tickRecorder.isRecording());
+    setTickCount(tickRecorder.getTickCount());
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        size="sm"
+        variant={isRecording ? "destructive" : "secondary"}
+        onClick={toggleRecording}
+      >
+        {isRecording ? (
+          <Square className="w-4 h-4 mr-1" />
+        ) : (
+          <Circle className="w-4 h-4 mr-1 text-red-500" />
+        )}
+        {isRecording ? "Stop" : "Record"}
+      </Button>
+      {tickCount > 0 && (
+        <>
+          <span className="text-sm text-slate-400">{tickCount} ticks</span>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => tickRecorder.download()}
+            disabled={isRecording}
+          >
+            <Download className="w-4 h-4" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+// components/replay-controls.tsx
+import { useEffect, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Pause, Play, Upload, X } from "lucide-react";
+import { parseRecording } from "@/lib/recording";
+import {
+  REPLAY_SPEEDS,
+  replayService,
+  type ReplayState,
+} from "@/services/replay-service";
+
+interface ReplayControlsProps {
+  onLoaded: (addresses: string[]) => void;
+}
+
+export function ReplayControls({ onLoaded }: ReplayControlsProps) {
+  const [state, setState] = useState<ReplayState>(replayService.getState());
+  const [error, setError] = useState<string>("");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => replayService.subscribe(setState), []);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setError("");
+      const recording = parseRecording(await file.text());
+      replayService.load(recording);
+      onLoaded(recording.header.addresses);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load recording");
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  if (!state.loaded) {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".ndjson,.jsonl,application/x-ndjson"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => fileInput.current?.click()}
+        >
+          <Upload className="w-4 h-4 mr-1" /> Replay Recording
+        </Button>
+        {error && <span className="text-sm text-red-500">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <Card className="p-3 bg-slate-900">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-semibold text-amber-400">REPLAY</span>
+        <Button
+          size="icon"
+          onClick={() =>
+            state.playing ? replayService.pause() : replayService.play()
+          }
+        >
+          {state.playing ? (
+            <Pause className="w-4 h-4" />
+          ) : (
+            <Play className="w-4 h-4" />
+          )}
+        </Button>
+        <div className="flex gap-1">
+          {REPLAY_SPEEDS.map((speed) => (
+            <Button
+              key={speed}
+              size="sm"
+              variant={state.speed === speed ? "default" : "secondary"}
+              onClick={() => replayService.setSpeed(speed)}
+            >
+              {speed}x
+            </Button>
+          ))}
+        </div>
+        <input
+          type="range"
+          min={state.startTime}
+          max={state.endTime}
+          value={state.currentTime}
+          onChange={(e) => replayService.seek(Number(e.target.value))}
+          className="flex-1 min-w-[160px]"
+        />
+        <span className="text-sm font-mono text-slate-300">
+          {new Date(state.currentTime).toLocaleString()}
+        </span>
+        <Button
+          size="icon"
+          variant="secondary"
+          onClick={() => replayService.unload()}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </Card>
+  );
+}
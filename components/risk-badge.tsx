@@ -0,0 +1,56 @@
+// components/risk-badge.tsx
+import { useState } from "react";
+import { ShieldAlert } from "lucide-react";
+import type { RiskAssessment, RiskLevel } from "@/lib/risk";
+
+interface RiskBadgeProps {
+  assessment: RiskAssessment;
+  // Buys on this token are currently refused by the risk guard.
+  blocked: boolean;
+}
+
+const LEVEL_STYLES: Record<RiskLevel, string> = {
+  low: "bg-green-500/20 text-green-400",
+  medium: "bg-yellow-500/20 text-yellow-400",
+  high: "bg-red-500/20 text-red-400",
+};
+
+export function RiskBadge({ assessment, blocked }: RiskBadgeProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative inline-block">
+      <button
+        className={`flex items-center gap-1 text-xs font-medium px-1.5 py-0.5 rounded ${
+          LEVEL_STYLES[assessment.level]
+        }`}
+        onClick={() => setOpen((prev) => !prev)}
+        title="Risk score"
+      >
+        <ShieldAlert className="w-3 h-3" />
+        {assessment.score}
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-7 z-10 w-64 space-y-1 rounded-md border border-slate-700 bg-slate-900 p-3 text-xs shadow-lg">
+          <p className="font-medium text-white capitalize">
+            {assessment.level} risk ({assessment.score}/100)
+          </p>
+          {assessment.factors.length === 0 ? (
+            <p className="text-slate-400">No red flags in the pair data</p>
+          ) : (
+            assessment.factors.map((factor) => (
+              <div key={factor.id} className="flex justify-between gap-2">
+                <span className="text-slate-300">{factor.reason}</span>
+                <span className="text-slate-500">+{factor.points}</span>
+              </div>
+            ))
+          )}
+          {blocked && (
+            <p className="text-red-400 pt-1">Buys are blocked by Risk Guard</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
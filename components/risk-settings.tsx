@@ -0,0 +1,54 @@
+// components/risk-settings.tsx
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { validateNumber } from "@/lib/utils";
+import type { RiskSettings } from "@/lib/risk";
+
+interface RiskSettingsPanelProps {
+  settings: RiskSettings;
+  onChange: (settings: RiskSettings) => void;
+}
+
+export function RiskSettingsPanel({
+  settings,
+  onChange,
+}: RiskSettingsPanelProps) {
+  return (
+    <Card className="p-4 bg-slate-900">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-bold text-white">Risk Guard</h3>
+        <Switch
+          checked={settings.blockTrades}
+          onCheckedChange={(blockTrades) =>
+            onChange({ ...settings, blockTrades })
+          }
+        />
+      </div>
+      <p className="text-sm text-slate-400 mb-4">
+        Refuse buys on tokens whose risk score reaches the threshold. Sells are
+        always allowed.
+      </p>
+      <div className="text-sm">
+        <label className="text-slate-400">Block at score (0-100)</label>
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          value={settings.threshold}
+          disabled={!settings.blockTrades}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              threshold: Math.min(
+                100,
+                Math.max(0, validateNumber(e.target.value))
+              ),
+            })
+          }
+          className="text-white"
+        />
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+// components/strategy-panel.tsx
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Play, Square } from "lucide-react";
+import type {
+  Strategy,
+  StrategyAction,
+  StrategyDecision,
+} from "@/lib/strategy";
+import type { TokenPosition } from "@/lib/types";
+
+interface StrategyPanelProps {
+  tokens: TokenPosition[];
+  strategies: Strategy[];
+  // address -> id of the strategy running on it
+  running: Record<string, string>;
+  decisions: StrategyDecision[];
+  onStart: (address: string, strategy: Strategy) => void;
+  onStop: (address: string) => void;
+  onClearLog: () => void;
+}
+
+const ACTION_STYLES: Record<StrategyAction, string> = {
+  start: "text-blue-400",
+  stop: "text-slate-400",
+  buy: "text-green-500",
+  sell: "text-red-500",
+  error: "text-yellow-500",
+};
+
+export function StrategyPanel({
+  tokens,
+  strategies,
+  running,
+  decisions,
+  onStart,
+  onStop,
+  onClearLog,
+}: StrategyPanelProps) {
+  const [selected, setSelected] = useState<Record<string, string>>({});
+
+  if (tokens.length === 0 || strategies.length === 0) return null;
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <h3 className="text-lg font-bold text-white mb-4">Strategies</h3>
+
+      <div className="space-y-2 mb-4">
+        {tokens.map((token) => {
+          const runningId = running[token.address];
+          const strategyId =
+            runningId ?? selected[token.address] ?? strategies[0].id;
+          const strategy = strategies.find((s) => s.id === strategyId);
+
+          return (
+            <div
+              key={token.address}
+              className="flex items-center gap-2 p-2 bg-slate-800 rounded-lg text-sm"
+            >
+              <span className="w-24 font-medium text-white">
+                {token.symbol}
+              </span>
+              <select
+                value={strategyId}
+                disabled={!!runningId}
+                onChange={(e) =>
+                  setSelected((prev) => ({
+                    ...prev,
+                    [token.address]: e.target.value,
+                  }))
+                }
+                className="h-9 flex-1 rounded-md border border-input bg-slate-800 px-2 text-sm text-white"
+                title={strategy?.description}
+              >
+                {strategies.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+              {runningId ? (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => onStop(token.address)}
+                >
+                  <Square className="w-4 h-4 mr-1" /> Stop
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={() => strategy && onStart(token.address, strategy)}
+                >
+                  <Play className="w-4 h-4 mr-1" /> Start
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-slate-400">Decision Log</h4>
+        {decisions.length > 0 && (
+          <Button size="sm" variant="secondary" onClick={onClearLog}>
+            Clear
+          </Button>
+        )}
+      </div>
+      {decisions.length === 0 ? (
+        <p className="text-sm text-slate-400">No decisions yet</p>
+      ) : (
+        <ScrollArea className="h-[200px] pr-4">
+          <div className="space-y-1">
+            {decisions.map((decision) => (
+              <div
+                key={decision.id}
+                className="flex items-start justify-between gap-2 text-sm"
+              >
+                <div>
+                  <span className={ACTION_STYLES[decision.action]}>
+                    {decision.action.toUpperCase()}
+                  </span>{" "}
+                  <span className="text-white">{decision.symbol}</span>{" "}
+                  <span className="text-slate-400">{decision.note}</span>
+                  {decision.status === "rejected" && (
+                    <span className="ml-1 text-xs px-1.5 py-0.5 rounded bg-red-900 text-red-300">
+                      Rejected
+                    </span>
+                  )}
+                </div>
+                <div className="text-right text-slate-400 whitespace-nowrap">
+                  <p>${decision.price.toFixed(6)}</p>
+                  <p className="text-xs">
+                    {decision.strategy} ·{" "}
+                    {new Date(decision.timestamp).toLocaleTimeString()}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </Card>
+  );
+}
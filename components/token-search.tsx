@@ -0,0 +1,125 @@
+// components/token-search.tsx
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { formatAge, formatCurrency } from "@/lib/utils";
+import { getChainLabel, getChainName } from "@/lib/chains";
+import { SEARCH_MIN_LENGTH } from "@/lib/search";
+import { Search } from "lucide-react";
+import {
+  dexScreenerService,
+  type DexScreenerPair,
+} from "@/services/dexscreener-service";
+
+interface TokenSearchProps {
+  onSelect: (pair: DexScreenerPair) => void;
+  disabled?: boolean;
+}
+
+const DEBOUNCE_MS = 300;
+
+export function TokenSearch({ onSelect, disabled }: TokenSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<DexScreenerPair[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [open, setOpen] = useState(false);
+  // Only the latest request may update the results.
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    const id = ++requestId.current;
+    if (trimmed.length < SEARCH_MIN_LENGTH) {
+      setResults([]);
+      setLoading(false);
+      setError("");
+      return;
+    }
+
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const pairs = await dexScreenerService.searchTokens(trimmed);
+        if (id !== requestId.current) return;
+        setResults(pairs);
+        setError("");
+      } catch (err) {
+        if (id !== requestId.current) return;
+        setResults([]);
+        setError("Search failed");
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const select = (pair: DexScreenerPair) => {
+    onSelect(pair);
+    setQuery("");
+    setOpen(false);
+  };
+
+  const showResults = open && query.trim().length >= SEARCH_MIN_LENGTH;
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-3 top-3 w-4 h-4 text-slate-400" />
+      <Input
+        placeholder="Search tokens by name or symbol"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && results.length > 0) select(results[0]);
+          if (e.key === "Escape") setOpen(false);
+        }}
+        className="pl-9 text-white"
+        disabled={disabled}
+      />
+
+      {showResults && (
+        <div className="absolute z-10 mt-1 w-full max-h-80 overflow-y-auto rounded-md border border-slate-700 bg-slate-900 shadow-lg">
+          {loading && results.length === 0 && (
+            <p className="p-3 text-sm text-slate-400">Searching…</p>
+          )}
+          {error && <p className="p-3 text-sm text-red-500">{error}</p>}
+          {!loading && !error && results.length === 0 && (
+            <p className="p-3 text-sm text-slate-400">No tokens found</p>
+          )}
+          {results.map((pair) => (
+            <button
+              key={`${pair.chainId}:${pair.pairAddress}`}
+              className="flex w-full items-center justify-between gap-4 px-3 py-2 text-left text-sm hover:bg-slate-800"
+              // Keep focus in the input so blur doesn't close the list first.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(pair)}
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-white">
+                  {pair.baseToken.symbol}
+                  <span
+                    className="ml-2 text-xs font-medium px-1.5 py-0.5 rounded bg-slate-800 text-slate-300"
+                    title={getChainName(pair.chainId)}
+                  >
+                    {getChainLabel(pair.chainId)}
+                  </span>
+                </p>
+                <p className="truncate text-slate-400">{pair.baseToken.name}</p>
+              </div>
+              <div className="text-right text-xs text-slate-400 whitespace-nowrap">
+                <p>Liq {formatCurrency(pair.liquidity?.usd ?? 0)}</p>
+                <p>Age {formatAge(pair.pairCreatedAt)}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,111 @@
 // components/trade-history.tsx
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { ArrowUpRight, ArrowDownRight } from "lucide-react";
+import { ArrowUpRight, ArrowDownRight, Download, Upload } from "lucide-react";
+import type { LedgerRowError } from "@/lib/ledger";
+import { getChainLabel, getChainName } from "@/lib/chains";
+import type { Trade, TriggerReason } from "@/lib/types";
 
-interface Trade {
-  id: string;
-  symbol: string;
-  type: "buy" | "sell";
-  amount: number;
-  price: number;
-  value: number;
-  timestamp: number;
-  pnl?: number;
-  pnlPercent?: number;
-}
+const TRIGGER_LABELS: Record<TriggerReason, string> = {
+  "stop-loss": "Stop Loss",
+  "take-profit": "Take Profit",
+  limit: "Limit",
+  "trailing-stop": "Trailing Stop",
+  strategy: "Strategy",
+};
 
 interface TradeHistoryProps {
   trades: Trade[];
+  onExport: (format: "csv" | "json") => void;
+  // Resolves with per-row errors, or an empty list once imported.
+  onImport: (file: File) => Promise<LedgerRowError[]>;
 }
 
-export function TradeHistory({ trades }: TradeHistoryProps) {
+const MAX_SHOWN_ERRORS = 20;
+
+export function TradeHistory({
+  trades,
+  onExport,
+  onImport,
+}: TradeHistoryProps) {
+  const [importErrors, setImportErrors] = useState<LedgerRowError[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setImportErrors(await onImport(file));
+    } catch (error) {
+      setImportErrors([
+        {
+          row: 0,
+          message: error instanceof Error ? error.message : "import failed",
+        },
+      ]);
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
   return (
     <Card className="p-4 bg-slate-900">
-      <h3 className="text-lg font-bold text-white mb-4">Trade History</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-white">Trade History</h3>
+        <div className="flex gap-1">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => fileInput.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-1" /> Import
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={trades.length === 0}
+            onClick={() => onExport("csv")}
+          >
+            <Download className="w-4 h-4 mr-1" /> CSV
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={trades.length === 0}
+            onClick={() => onExport("json")}
+          >
+            <Download className="w-4 h-4 mr-1" /> JSON
+          </Button>
+        </div>
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="mb-4 p-2 rounded-lg bg-red-950 text-sm text-red-300">
+          <p className="font-medium">
+            Import failed with {importErrors.length} error
+            {importErrors.length === 1 ? "" : "s"}:
+          </p>
+          <ul className="mt-1 space-y-0.5">
+            {importErrors.slice(0, MAX_SHOWN_ERRORS).map((error, i) => (
+              <li key={i}>
+                {error.row > 0 ? `Row ${error.row}: ` : ""}
+                {error.message}
+              </li>
+            ))}
+            {importErrors.length > MAX_SHOWN_ERRORS && (
+              <li>…and {importErrors.length - MAX_SHOWN_ERRORS} more</li>
+            )}
+          </ul>
+        </div>
+      )}
       <ScrollArea className="h-[300px] pr-4">
         <div className="space-y-2">
           {trades.map((trade) => (
@@ -38,10 +120,38 @@ export function TradeHistory({ trades }: TradeHistoryProps) {
                   <ArrowDownRight className="w-4 h-4 text-red-500" />
                 )}
                 <div>
-                  <p className="font-medium text-white">{trade.symbol}</p>
+                  <p className="font-medium text-white">
+                    {trade.symbol}
+                    {trade.chainId && (
+                      <span
+                        className="ml-2 text-xs text-slate-400"
+                        title={getChainName(trade.chainId)}
+                      >
+                        {getChainLabel(trade.chainId)}
+                      </span>
+                    )}
+                    {trade.trigger && (
+                      <span className="ml-2 text-xs text-amber-400">
+                        {TRIGGER_LABELS[trade.trigger]}
+                      </span>
+                    )}
+                  </p>
                   <p className="text-sm text-slate-400">
                     {new Date(trade.timestamp).toLocaleString()}
                   </p>
+                  <p
+                    className="text-xs text-slate-500"
+                    title={`Swap $${trade.fees.swap.toFixed(
+                      4
+                    )} · Network $${trade.fees.network.toFixed(
+                      4
+                    )} · Tax $${trade.fees.tax.toFixed(4)}`}
+                  >
+                    @ ${trade.price.toFixed(6)} (impact{" "}
+                    {trade.priceImpact >= 0 ? "+" : ""}
+                    {trade.priceImpact.toFixed(2)}%) · fees $
+                    {trade.fees.total.toFixed(2)}
+                  </p>
                 </div>
               </div>
               <div className="text-right">
@@ -4,11 +4,21 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { PairPicker } from "@/components/pair-picker";
+import { OrderTicket } from "@/components/order-ticket";
+import { RiskBadge } from "@/components/risk-badge";
 import { useTokenData } from "@/hooks/use-token-data";
 import { formatCurrency } from "@/lib/utils";
+import { getChainLabel, getChainName } from "@/lib/chains";
 import { LineChart, Line, YAxis, ResponsiveContainer } from "recharts";
-import { ArrowUp, ArrowDown, TrendingUp, TrendingDown } from "lucide-react";
-import type { DexScreenerPair } from "@/services/dexscreener-service";
+import { TrendingUp, TrendingDown, X } from "lucide-react";
+import {
+  dexScreenerService,
+  type DexScreenerPair,
+  type MarketStats,
+} from "@/services/dexscreener-service";
+import type { OrderSize } from "@/lib/order-sizing";
+import { assessRisk, type RiskSettings } from "@/lib/risk";
 
 interface PricePoint {
   timestamp: number;
@@ -17,30 +27,40 @@ interface PricePoint {
 
 interface TradingCardProps {
   address: string;
-  onBuy: (amount: number) => void;
-  onSell: (amount: number) => void;
+  chainId?: string;
+  pairAddress?: string;
+  onPairChange: (pair: DexScreenerPair) => void;
+  // Moves the card back to the watchlist.
+  onClose: () => void;
+  buyPresets: OrderSize[];
+  sellPresets: OrderSize[];
+  onOrder: (type: "buy" | "sell", size: OrderSize) => void;
+  riskSettings: RiskSettings;
   holdings: number;
   pnl: number;
+  fees: number;
   onPriceUpdate: (price: number) => void;
 }
 
-interface MarketStats {
-  price: number;
-  priceChange24h: number;
-  marketCap: number;
-  volume24h: number;
-  liquidity: number;
-}
-
 export function TradingCard({
   address,
-  onBuy,
-  onSell,
+  chainId,
+  pairAddress,
+  onPairChange,
+  onClose,
+  buyPresets,
+  sellPresets,
+  onOrder,
+  riskSettings,
   holdings,
   pnl,
+  fees,
   onPriceUpdate,
 }: TradingCardProps) {
-  const { tokenData, loading, error } = useTokenData(address);
+  const { tokenData, loading, error } = useTokenData(address, {
+    chainId,
+    pairAddress,
+  });
   const [priceHistory, setPriceHistory] = useState<PricePoint[]>([]);
   const [marketStats, setMarketStats] = useState<MarketStats>({
     price: 0,
@@ -131,13 +151,19 @@ export function TradingCard({
   if (error || !tokenData) {
     return (
       <Card className="p-4 bg-slate-900">
-        <div className="text-red-500">Error loading token data</div>
+        <div className="flex items-center justify-between">
+          <span className="text-red-500">Error loading token data</span>
+          <Button size="sm" variant="ghost" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
       </Card>
     );
   }
 
   const currentValue = holdings * marketStats.price;
   const pnlPercent = currentValue > 0 ? (pnl / (currentValue - pnl)) * 100 : 0;
+  const risk = assessRisk(tokenData, dexScreenerService.now());
 
   return (
     <Card className="p-4 bg-slate-900">
@@ -145,10 +171,35 @@ export function TradingCard({
         <div>
           <h3 className="text-lg font-bold text-white">
             {tokenData.baseToken.symbol}
+            <span
+              className="ml-2 align-middle text-xs font-medium px-1.5 py-0.5 rounded bg-slate-800 text-slate-300"
+              title={getChainName(tokenData.chainId)}
+            >
+              {getChainLabel(tokenData.chainId)}
+            </span>
+            <button
+              className="ml-1 align-middle text-slate-500 hover:text-white"
+              onClick={onClose}
+              title="Move to watchlist"
+            >
+              <X className="inline w-4 h-4" />
+            </button>
           </h3>
-          <p className="text-sm text-slate-400">
-            Vol: {formatCurrency(marketStats.volume24h)}
-          </p>
+          <div className="flex items-center gap-2 text-sm text-slate-400">
+            <span>Vol: {formatCurrency(marketStats.volume24h)}</span>
+            <RiskBadge
+              assessment={risk}
+              blocked={
+                riskSettings.blockTrades && risk.score >= riskSettings.threshold
+              }
+            />
+          </div>
+          <PairPicker
+            address={address}
+            chainId={chainId}
+            activePair={tokenData}
+            onSelect={onPairChange}
+          />
         </div>
         <div className="text-right">
           <div className="flex items-center justify-end gap-1">
@@ -206,38 +257,13 @@ export function TradingCard({
       </div>
 
       <div className="space-y-2">
-        <div className="grid grid-cols-2 gap-2">
-          <Button
-            className="bg-green-500 hover:bg-green-600"
-            onClick={() => onBuy(100)}
-            disabled={loading}
-          >
-            <ArrowUp className="w-4 h-4 mr-1" /> Buy $100
-          </Button>
-          <Button
-            className="bg-red-500 hover:bg-red-600"
-            onClick={() => onSell(100)}
-            disabled={loading || holdings === 0}
-          >
-            <ArrowDown className="w-4 h-4 mr-1" /> Sell $100
-          </Button>
-        </div>
-        <div className="grid grid-cols-2 gap-2">
-          <Button
-            className="bg-green-500 hover:bg-green-600"
-            onClick={() => onBuy(250)}
-            disabled={loading}
-          >
-            <ArrowUp className="w-4 h-4 mr-1" /> Buy $250
-          </Button>
-          <Button
-            className="bg-red-500 hover:bg-red-600"
-            onClick={() => onSell(250)}
-            disabled={loading || holdings === 0}
-          >
-            <ArrowDown className="w-4 h-4 mr-1" /> Sell $250
-          </Button>
-        </div>
+        <OrderTicket
+          buyPresets={buyPresets}
+          sellPresets={sellPresets}
+          holdings={holdings}
+          disabled={loading}
+          onOrder={onOrder}
+        />
 
         <div className="mt-4 space-y-2 bg-slate-800 p-3 rounded-lg">
           <div className="flex justify-between">
@@ -261,6 +287,10 @@ export function TradingCard({
               {pnlPercent.toFixed(2)}%)
             </span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Fees Paid:</span>
+            <span className="text-slate-300">{formatCurrency(fees)}</span>
+          </div>
         </div>
 
         <div className="text-xs text-slate-500 text-right mt-2">
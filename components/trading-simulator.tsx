@@ -1,29 +1,26 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Plus, Wallet, AlertCircle } from "lucide-react";
-
-interface CandleData {
-  time: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-}
+import { useTokenData } from "@/hooks/use-token-data";
+import { useCandles } from "@/hooks/use-candles";
+import {
+  CANDLE_INTERVALS,
+  type CandleData,
+  type CandleInterval,
+} from "@/lib/candles";
+import { dexScreenerService } from "@/services/dexscreener-service";
 
 interface TokenData {
   id: string;
   address: string;
   symbol: string;
   name: string;
-  priceUsd: string;
-  candleHistory: CandleData[];
   holdings: number;
-  volume: string;
 }
 
 // Custom Candlestick Chart Component
@@ -33,10 +30,19 @@ const CandlestickChart = ({ data }: { data: CandleData[] }) => {
   const candleWidth = 8;
   const padding = 20;
 
+  if (data.length === 0) {
+    return (
+      <div className="flex h-full items-center justify-center text-sm text-slate-500">
+        Waiting for ticks...
+      </div>
+    );
+  }
+
   // Calculate price range for scaling
   const minPrice = Math.min(...data.flatMap((d) => [d.low]));
   const maxPrice = Math.max(...data.flatMap((d) => [d.high]));
-  const priceRange = maxPrice - minPrice;
+  // A flat series would divide by zero; give it a nominal range instead.
+  const priceRange = maxPrice - minPrice || maxPrice * 0.01 || 1;
 
   // Scale price to chart height
   const scalePrice = (price: number) => {
@@ -64,7 +70,7 @@ const CandlestickChart = ({ data }: { data: CandleData[] }) => {
         const lowY = scalePrice(candle.low);
 
         return (
-          <g key={i}>
+          <g key={candle.time}>
             {/* Wick */}
             <line
               x1={x + candleWidth / 2}
@@ -89,6 +95,78 @@ const CandlestickChart = ({ data }: { data: CandleData[] }) => {
   );
 };
 
+// Token Card fed by live candles aggregated from service ticks
+const SimulatorTokenCard = ({
+  token,
+  candleInterval,
+  onTrade,
+}: {
+  token: TokenData;
+  candleInterval: CandleInterval;
+  onTrade: (isBuy: boolean, amount: number) => void;
+}) => {
+  const { tokenData } = useTokenData(token.address);
+  const candles = useCandles(token.address, CANDLE_INTERVALS[candleInterval]);
+  const price = tokenData ? parseFloat(tokenData.priceUsd) : 0;
+
+  return (
+    <Card className="p-4 bg-slate-900">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">{token.symbol}</h3>
+          <p className="text-sm text-slate-400">
+            Vol: ${(tokenData?.volume?.h24 ?? 0).toLocaleString()}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-lg font-bold text-white">${price.toFixed(6)}</p>
+        </div>
+      </div>
+
+      <div className="h-32 mb-4 w-full">
+        <CandlestickChart data={candles} />
+      </div>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            className="bg-green-500 hover:bg-green-600"
+            onClick={() => onTrade(true, 100)}
+          >
+            Buy $100
+          </Button>
+          <Button
+            className="bg-red-500 hover:bg-red-600"
+            onClick={() => onTrade(false, 100)}
+          >
+            Sell $100
+          </Button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            className="bg-green-500 hover:bg-green-600"
+            onClick={() => onTrade(true, 250)}
+          >
+            Buy $250
+          </Button>
+          <Button
+            className="bg-red-500 hover:bg-red-600"
+            onClick={() => onTrade(false, 250)}
+          >
+            Sell $250
+          </Button>
+        </div>
+        <div className="text-sm text-slate-400">
+          <p>
+            Holdings: {token.holdings.toFixed(6)} {token.symbol}
+          </p>
+          <p>Value: ${(token.holdings * price).toFixed(2)}</p>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
 // Main Trading Simulator Component
 export function TradingSimulator() {
   const [balance, setBalance] = useState<number>(1000);
@@ -96,75 +174,21 @@ export function TradingSimulator() {
   const [error, setError] = useState<string>("");
   const [newAddress, setNewAddress] = useState<string>("");
 
-  // Generate mock candle data for testing
-  const generateMockCandle = (basePrice: number) => {
-    const variation = basePrice * 0.02; // 2% variation
-    const open = basePrice + (Math.random() - 0.5) * variation;
-    const close = basePrice + (Math.random() - 0.5) * variation;
-    const high = Math.max(open, close) + Math.random() * variation;
-    const low = Math.min(open, close) - Math.random() * variation;
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>("1m");
 
-    return {
-      time: new Date().toLocaleTimeString(),
-      open,
-      high,
-      low,
-      close,
-    };
-  };
-
-  const fetchTokenData = async (address: string) => {
-    try {
-      const response = await fetch(
-        `https://api.dexscreener.com/latest/dex/tokens/${address}`
-      );
-      const data = await response.json();
-
-      if (data.pairs && data.pairs[0]) {
-        const pair = data.pairs[0];
-        const basePrice = parseFloat(pair.priceUsd);
-
-        // Generate initial candle history
-        const initialCandles = Array.from({ length: 20 }, () =>
-          generateMockCandle(basePrice)
-        );
-
-        return {
-          id: Math.random().toString(36).substr(2, 9),
-          address,
-          symbol: pair.baseToken.symbol,
-          name: pair.baseToken.name,
-          priceUsd: pair.priceUsd,
-          candleHistory: initialCandles,
-          holdings: 0,
-          volume: pair.volume?.h24 || "0",
-        };
-      }
-      throw new Error("Token not found");
-    } catch (err) {
+  const fetchTokenData = async (address: string): Promise<TokenData> => {
+    const pair = await dexScreenerService.fetchTokenData(address);
+    if (!pair) {
       throw new Error("Failed to fetch token data");
     }
-  };
-
-  const updatePrices = async () => {
-    const updatedTokens = await Promise.all(
-      tokens.map(async (token) => {
-        try {
-          const data = await fetchTokenData(token.address);
-          const newPrice = parseFloat(data.priceUsd);
-          const newCandle = generateMockCandle(newPrice);
 
-          return {
-            ...token,
-            priceUsd: data.priceUsd,
-            candleHistory: [...token.candleHistory.slice(-19), newCandle],
-          };
-        } catch {
-          return token;
-        }
-      })
-    );
-    setTokens(updatedTokens);
+    return {
+      id: Math.random().toString(36).substr(2, 9),
+      address,
+      symbol: pair.baseToken.symbol,
+      name: pair.baseToken.name,
+      holdings: 0,
+    };
   };
 
   const addToken = async () => {
@@ -186,16 +210,13 @@ export function TradingSimulator() {
     }
   };
 
-  useEffect(() => {
-    const interval = setInterval(updatePrices, 10000);
-    return () => clearInterval(interval);
-  }, [tokens]);
-
   const handleTrade = (tokenId: string, isBuy: boolean, amount: number) => {
     const token = tokens.find((t) => t.id === tokenId);
     if (!token) return;
 
-    const price = parseFloat(token.priceUsd);
+    const pair = dexScreenerService.getTokenData(token.address);
+    const price = pair ? parseFloat(pair.priceUsd) : NaN;
+    if (isNaN(price) || price <= 0) return;
     if (isBuy) {
       if (amount <= balance) {
         const tokenAmount = amount / price;
@@ -230,6 +251,19 @@ export function TradingSimulator() {
         </div>
       </div>
 
+      <div className="flex gap-2">
+        {(Object.keys(CANDLE_INTERVALS) as CandleInterval[]).map((key) => (
+          <Button
+            key={key}
+            size="sm"
+            variant={candleInterval === key ? "default" : "secondary"}
+            onClick={() => setCandleInterval(key)}
+          >
+            {key}
+          </Button>
+        ))}
+      </div>
+
       <div className="flex gap-2">
         <Input
           placeholder="Enter token address"
@@ -251,65 +285,12 @@ export function TradingSimulator() {
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {tokens.map((token) => (
-          <Card key={token.id} className="p-4 bg-slate-900">
-            <div className="flex justify-between items-center mb-4">
-              <div>
-                <h3 className="text-lg font-bold text-white">{token.symbol}</h3>
-                <p className="text-sm text-slate-400">
-                  Vol: ${parseFloat(token.volume).toLocaleString()}
-                </p>
-              </div>
-              <div className="text-right">
-                <p className="text-lg font-bold text-white">
-                  ${parseFloat(token.priceUsd).toFixed(6)}
-                </p>
-              </div>
-            </div>
-
-            <div className="h-32 mb-4 w-full">
-              <CandlestickChart data={token.candleHistory} />
-            </div>
-
-            <div className="space-y-2">
-              <div className="grid grid-cols-2 gap-2">
-                <Button
-                  className="bg-green-500 hover:bg-green-600"
-                  onClick={() => handleTrade(token.id, true, 100)}
-                >
-                  Buy $100
-                </Button>
-                <Button
-                  className="bg-red-500 hover:bg-red-600"
-                  onClick={() => handleTrade(token.id, false, 100)}
-                >
-                  Sell $100
-                </Button>
-              </div>
-              <div className="grid grid-cols-2 gap-2">
-                <Button
-                  className="bg-green-500 hover:bg-green-600"
-                  onClick={() => handleTrade(token.id, true, 250)}
-                >
-                  Buy $250
-                </Button>
-                <Button
-                  className="bg-red-500 hover:bg-red-600"
-                  onClick={() => handleTrade(token.id, false, 250)}
-                >
-                  Sell $250
-                </Button>
-              </div>
-              <div className="text-sm text-slate-400">
-                <p>
-                  Holdings: {token.holdings.toFixed(6)} {token.symbol}
-                </p>
-                <p>
-                  Value: $
-                  {(token.holdings * parseFloat(token.priceUsd)).toFixed(2)}
-                </p>
-              </div>
-            </div>
-          </Card>
+          <SimulatorTokenCard
+            key={token.id}
+            token={token}
+            candleInterval={candleInterval}
+            onTrade={(isBuy, amount) => handleTrade(token.id, isBuy, amount)}
+          />
         ))}
       </div>
     </div>
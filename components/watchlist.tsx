@@ -0,0 +1,197 @@
+// components/watchlist.tsx
+import { useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useTokenData } from "@/hooks/use-token-data";
+import { formatCurrency } from "@/lib/utils";
+import { getChainLabel, getChainName } from "@/lib/chains";
+import type { WatchlistEntry } from "@/lib/watchlist";
+import { ArrowUp, ArrowDown, X, LayoutGrid } from "lucide-react";
+
+interface WatchlistProps {
+  entries: WatchlistEntry[];
+  // Tokens that still carry trade history; they can't leave the session.
+  lockedAddresses: Set<string>;
+  onPromote: (address: string) => void;
+  onRemove: (address: string) => void;
+  onMove: (address: string, offset: number) => void;
+  onPriceUpdate: (address: string, price: number) => void;
+}
+
+interface WatchlistRowProps {
+  entry: WatchlistEntry;
+  index: number;
+  count: number;
+  locked: boolean;
+  onPromote: () => void;
+  onRemove: () => void;
+  onMove: (offset: number) => void;
+  onPriceUpdate?: (price: number) => void;
+}
+
+function ChangeCell({ value }: { value: number | undefined }) {
+  const change = value ?? 0;
+  return (
+    <td
+      className={`text-right ${
+        change >= 0 ? "text-green-500" : "text-red-500"
+      }`}
+    >
+      {change >= 0 ? "+" : ""}
+      {change.toFixed(2)}%
+    </td>
+  );
+}
+
+function WatchlistRow({
+  entry,
+  index,
+  count,
+  locked,
+  onPromote,
+  onRemove,
+  onMove,
+  onPriceUpdate,
+}: WatchlistRowProps) {
+  const { tokenData, loading } = useTokenData(entry.address, {
+    chainId: entry.chainId,
+    pairAddress: entry.pairAddress,
+  });
+  const price = tokenData ? parseFloat(tokenData.priceUsd) : 0;
+
+  // Keeps P/L of watched tokens with trade history marked to market.
+  useEffect(() => {
+    if (price > 0) onPriceUpdate?.(price);
+  }, [price, onPriceUpdate]);
+
+  return (
+    <tr className="border-t border-slate-800">
+      <td className="py-2">
+        <span className="font-medium text-white">{entry.symbol}</span>
+        <span
+          className="ml-2 text-xs font-medium px-1.5 py-0.5 rounded bg-slate-800 text-slate-300"
+          title={getChainName(entry.chainId)}
+        >
+          {getChainLabel(entry.chainId)}
+        </span>
+      </td>
+      {loading || !tokenData ? (
+        <td colSpan={6} className="text-right text-slate-500">
+          Loading…
+        </td>
+      ) : (
+        <>
+          <td className="text-right text-white">{formatCurrency(price, 6)}</td>
+          <ChangeCell value={tokenData.priceChange?.m5} />
+          <ChangeCell value={tokenData.priceChange?.h1} />
+          <ChangeCell value={tokenData.priceChange?.h24} />
+          <td className="text-right text-slate-300">
+            {formatCurrency(tokenData.volume?.h24 ?? 0)}
+          </td>
+          <td className="text-right text-slate-300">
+            {formatCurrency(tokenData.liquidity?.usd ?? 0)}
+          </td>
+        </>
+      )}
+      <td className="text-right whitespace-nowrap pl-2">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          onClick={() => onMove(-1)}
+          disabled={index === 0}
+          title="Move up"
+        >
+          <ArrowUp className="w-4 h-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          onClick={() => onMove(1)}
+          disabled={index === count - 1}
+          title="Move down"
+        >
+          <ArrowDown className="w-4 h-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          className="h-7 mx-1"
+          onClick={onPromote}
+        >
+          <LayoutGrid className="w-4 h-4 mr-1" /> Trade
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          onClick={onRemove}
+          disabled={locked}
+          title={locked ? "Has trade history" : "Remove"}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </td>
+    </tr>
+  );
+}
+
+export function Watchlist({
+  entries,
+  lockedAddresses,
+  onPromote,
+  onRemove,
+  onMove,
+  onPriceUpdate,
+}: WatchlistProps) {
+  return (
+    <Card className="p-4 bg-slate-900">
+      <h3 className="text-lg font-bold text-white mb-2">Watchlist</h3>
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          Add tokens to watch them here; open a trading card with Trade.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="text-left font-normal">Token</th>
+                <th className="text-right font-normal">Price</th>
+                <th className="text-right font-normal">5m</th>
+                <th className="text-right font-normal">1h</th>
+                <th className="text-right font-normal">24h</th>
+                <th className="text-right font-normal">Volume</th>
+                <th className="text-right font-normal">Liquidity</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry, index) => {
+                const locked = lockedAddresses.has(entry.address);
+                return (
+                  <WatchlistRow
+                    key={entry.address}
+                    entry={entry}
+                    index={index}
+                    count={entries.length}
+                    locked={locked}
+                    onPromote={() => onPromote(entry.address)}
+                    onRemove={() => onRemove(entry.address)}
+                    onMove={(offset) => onMove(entry.address, offset)}
+                    onPriceUpdate={
+                      locked
+                        ? (price) => onPriceUpdate(entry.address, price)
+                        : undefined
+                    }
+                  />
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
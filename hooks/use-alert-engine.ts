@@ -0,0 +1,56 @@
+import { useEffect, useRef } from "react";
+import { dexScreenerService } from "@/services/dexscreener-service";
+import {
+  createAlertRuntime,
+  evaluateAlert,
+  type Alert,
+  type AlertEvent,
+  type AlertRuntime,
+} from "@/lib/alerts";
+
+// Evaluates alerts against every pair update from the service. Only tokens
+// with a card or watchlist row are subscribed, so alerts on other tokens
+// stay idle until the token is added back.
+export function useAlertEngine(
+  alerts: Alert[],
+  onFire: (events: AlertEvent[]) => void
+) {
+  const alertsRef = useRef(alerts);
+  const onFireRef = useRef(onFire);
+  const runtimesRef = useRef<Map<string, AlertRuntime>>(new Map());
+
+  useEffect(() => {
+    onFireRef.current = onFire;
+  }, [onFire]);
+
+  useEffect(() => {
+    alertsRef.current = alerts;
+    const ids = new Set(alerts.map((a) => a.id));
+    runtimesRef.current.forEach((_, id) => {
+      if (!ids.has(id)) runtimesRef.current.delete(id);
+    });
+  }, [alerts]);
+
+  useEffect(() => {
+    return dexScreenerService.addUpdateListener((address, data) => {
+      const now = dexScreenerService.now();
+      const runtimes = runtimesRef.current;
+      const events: AlertEvent[] = [];
+
+      for (const alert of alertsRef.current) {
+        if (alert.address !== address) continue;
+
+        const result = evaluateAlert(
+          alert,
+          runtimes.get(alert.id) ?? createAlertRuntime(),
+          data,
+          now
+        );
+        runtimes.set(alert.id, result.runtime);
+        if (result.event) events.push(result.event);
+      }
+
+      if (events.length > 0) onFireRef.current(events);
+    });
+  }, []);
+}
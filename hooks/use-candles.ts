@@ -0,0 +1,39 @@
+import { useState, useEffect, useMemo } from "react";
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import { dexScreenerService } from "@/services/dexscreener-service";
+import { buildCandles, type CandleData, type PriceTick } from "@/lib/candles";
+
+// Enough history for a full chart of 5m candles at the 3s poll interval.
+const MAX_TICKS = 2400;
+const MAX_CANDLES = 24;
+
+export function useCandles(address: string, intervalMs: number): CandleData[] {
+  const [ticks, setTicks] = useState<PriceTick[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    setTicks([]);
+
+    const handleUpdate = (data: DexScreenerPair) => {
+      if (!mounted) return;
+      const price = parseFloat(data.priceUsd);
+      setTicks((prev) =>
+        [...prev, { timestamp: dexScreenerService.now(), price }].slice(
+          -MAX_TICKS
+        )
+      );
+    };
+
+    const unsubscribe = dexScreenerService.subscribe(address, handleUpdate);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [address]);
+
+  return useMemo(
+    () => buildCandles(ticks, intervalMs, MAX_CANDLES),
+    [ticks, intervalMs]
+  );
+}
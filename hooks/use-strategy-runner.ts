@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { dexScreenerService } from "@/services/dexscreener-service";
+import {
+  buildStrategyContext,
+  createDecision,
+  runStrategyTick,
+  startStrategy,
+  type OrderExecutor,
+  type Strategy,
+  type StrategyDecision,
+  type StrategyRun,
+} from "@/lib/strategy";
+import type { Portfolio } from "@/lib/portfolio";
+
+interface StrategyHandlers {
+  getPortfolio: () => Portfolio;
+  execute: OrderExecutor;
+}
+
+const MAX_DECISIONS = 200;
+
+export function useStrategyRunner(handlers: StrategyHandlers) {
+  // address -> strategy id, for rendering; the runs themselves live in a ref
+  // so ticks always see the latest state without re-subscribing.
+  const [running, setRunning] = useState<Record<string, string>>({});
+  const [decisions, setDecisions] = useState<StrategyDecision[]>([]);
+  const runsRef = useRef<Map<string, StrategyRun>>(new Map());
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  const log = useCallback((entries: StrategyDecision[]) => {
+    if (entries.length === 0) return;
+    setDecisions((prev) =>
+      [...[...entries].reverse(), ...prev].slice(0, MAX_DECISIONS)
+    );
+  }, []);
+
+  const syncRunning = useCallback(() => {
+    setRunning(
+      Object.fromEntries(
+        Array.from(runsRef.current.values()).map((run) => [
+          run.address,
+          run.strategy.id,
+        ])
+      )
+    );
+  }, []);
+
+  // Logs a start/stop against the latest known price for the token.
+  const logLifecycle = useCallback(
+    (run: StrategyRun, action: "start" | "stop") => {
+      const position = handlersRef.current
+        .getPortfolio()
+        .tokens.find((t) => t.address === run.address);
+      if (!position) return;
+      log([
+        createDecision(
+          run,
+          {
+            timestamp: dexScreenerService.now(),
+            price: position.currentPrice,
+            position,
+          },
+          action,
+          action === "start" ? run.strategy.description : "Stopped"
+        ),
+      ]);
+    },
+    [log]
+  );
+
+  const stop = useCallback(
+    (address: string) => {
+      const run = runsRef.current.get(address);
+      if (!run) return;
+      runsRef.current.delete(address);
+      syncRunning();
+      logLifecycle(run, "stop");
+    },
+    [syncRunning, logLifecycle]
+  );
+
+  const start = useCallback(
+    (address: string, strategy: Strategy) => {
+      stop(address);
+      const run = startStrategy(strategy, address, dexScreenerService.now());
+      runsRef.current.set(address, run);
+      syncRunning();
+      logLifecycle(run, "start");
+    },
+    [stop, syncRunning, logLifecycle]
+  );
+
+  const clearLog = useCallback(() => setDecisions([]), []);
+
+  useEffect(() => {
+    return dexScreenerService.addUpdateListener((address, data) => {
+      const run = runsRef.current.get(address);
+      if (!run) return;
+
+      const { getPortfolio, execute } = handlersRef.current;
+      const context = buildStrategyContext(
+        getPortfolio(),
+        address,
+        data,
+        dexScreenerService.now()
+      );
+      if (!context) {
+        // The token was removed from the portfolio.
+        runsRef.current.delete(address);
+        syncRunning();
+        return;
+      }
+
+      log(runStrategyTick(run, context, execute));
+    });
+  }, [log, syncRunning]);
+
+  return { running, decisions, start, stop, clearLog };
+}
@@ -1,5 +1,8 @@
 import { useState, useEffect } from "react";
-import type { DexScreenerPair } from "@/services/dexscreener-service";
+import type {
+  DexScreenerPair,
+  SubscribeOptions,
+} from "@/services/dexscreener-service";
 import { dexScreenerService } from "@/services/dexscreener-service";
 
 interface TokenDataResult {
@@ -8,7 +11,10 @@ interface TokenDataResult {
   error: string | null;
 }
 
-export function useTokenData(address: string): TokenDataResult {
+export function useTokenData(
+  address: string,
+  { chainId, pairAddress }: SubscribeOptions = {}
+): TokenDataResult {
   const [tokenData, setTokenData] = useState<DexScreenerPair | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -24,14 +30,17 @@ export function useTokenData(address: string): TokenDataResult {
     };
 
     // Subscribe to updates
-    const unsubscribe = dexScreenerService.subscribe(address, handleUpdate);
+    const unsubscribe = dexScreenerService.subscribe(address, handleUpdate, {
+      chainId,
+      pairAddress,
+    });
     setLoading(true);
 
     return () => {
       mounted = false;
       unsubscribe();
     };
-  }, [address]);
+  }, [address, chainId, pairAddress]);
 
   return { tokenData, loading, error };
 }
@@ -0,0 +1,71 @@
+import { useEffect, useRef } from "react";
+import { dexScreenerService } from "@/services/dexscreener-service";
+import { checkExitTriggers } from "@/lib/triggers";
+import { evaluateOrder } from "@/lib/orders";
+import type { Order, TokenPosition, TriggerReason } from "@/lib/types";
+
+interface TriggerHandlers {
+  onExit: (address: string, reason: TriggerReason, price: number) => void;
+  onOrder: (order: Order, reason: TriggerReason, price: number) => void;
+  onOrdersUpdated: (orders: Order[]) => void;
+}
+
+export function useTriggerEngine(
+  positions: TokenPosition[],
+  orders: Order[],
+  handlers: TriggerHandlers
+) {
+  const positionsRef = useRef(positions);
+  const ordersRef = useRef(orders);
+  const handlersRef = useRef(handlers);
+  // Positions and orders that already fired and are waiting for the fill to
+  // land, so a second tick before the next render can't execute them twice.
+  const pendingRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    positionsRef.current = positions;
+    ordersRef.current = orders;
+    pendingRef.current.clear();
+  }, [positions, orders]);
+
+  useEffect(() => {
+    return dexScreenerService.addUpdateListener((address, data) => {
+      const price = parseFloat(data.priceUsd);
+      const pending = pendingRef.current;
+      const updated: Order[] = [];
+
+      for (const order of ordersRef.current) {
+        if (order.address.toLowerCase() !== address || pending.has(order.id)) {
+          continue;
+        }
+
+        const evaluation = evaluateOrder(order, price);
+        if (evaluation.trigger) {
+          pending.add(order.id);
+          handlersRef.current.onOrder(order, evaluation.trigger, price);
+        } else if (evaluation.order !== order) {
+          updated.push(evaluation.order);
+        }
+      }
+
+      if (updated.length > 0) {
+        handlersRef.current.onOrdersUpdated(updated);
+      }
+
+      const position = positionsRef.current.find(
+        (p) => p.address.toLowerCase() === address
+      );
+      if (!position || pending.has(address)) return;
+
+      const reason = checkExitTriggers(position, price);
+      if (reason) {
+        pending.add(address);
+        handlersRef.current.onExit(position.address, reason, price);
+      }
+    });
+  }, []);
+}
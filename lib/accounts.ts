@@ -0,0 +1,134 @@
+// lib/accounts.ts
+import type { PerformanceAnalytics } from "@/lib/analytics";
+import type { TokenPosition } from "@/lib/types";
+
+// A paper account. Its portfolio, ledger and settings are persisted as a
+// session under the account id.
+export interface Account {
+  id: string;
+  name: string;
+  startingBalance: number;
+  createdAt: number;
+  // When the current run began: creation or the last reset.
+  runStartedAt: number;
+}
+
+// Summary of a finished run, kept for comparison after the account resets.
+export interface ArchivedRun {
+  id: string;
+  accountId: string;
+  accountName: string;
+  startingBalance: number;
+  startedAt: number;
+  archivedAt: number;
+  finalEquity: number;
+  returnPercent: number;
+  tradeCount: number;
+  winRate: number;
+  realizedPnL: number;
+  maxDrawdownPercent: number;
+  // Null for runs too short to annualize.
+  sharpeRatio: number | null;
+}
+
+export interface AccountIndex {
+  activeAccountId: string;
+  accounts: Account[];
+  archivedRuns: ArchivedRun[];
+}
+
+export const DEFAULT_STARTING_BALANCE = 1000;
+export const DEFAULT_ACCOUNT_ID = "default";
+
+export function createDefaultAccountIndex(now: number): AccountIndex {
+  return {
+    activeAccountId: DEFAULT_ACCOUNT_ID,
+    accounts: [
+      {
+        id: DEFAULT_ACCOUNT_ID,
+        name: "Main",
+        startingBalance: DEFAULT_STARTING_BALANCE,
+        createdAt: now,
+        runStartedAt: now,
+      },
+    ],
+    archivedRuns: [],
+  };
+}
+
+export function getActiveAccount(index: AccountIndex): Account {
+  return (
+    index.accounts.find((a) => a.id === index.activeAccountId) ??
+    index.accounts[0]
+  );
+}
+
+function createId(): string {
+  return Math.random().toString(36).substring(7);
+}
+
+export function createAccount(
+  index: AccountIndex,
+  name: string,
+  startingBalance: number,
+  now: number
+): { account: Account } | { error: string } {
+  const trimmed = name.trim();
+  if (!trimmed) return { error: "Account name is required" };
+  if (
+    index.accounts.some((a) => a.name.toLowerCase() === trimmed.toLowerCase())
+  ) {
+    return { error: "An account with that name already exists" };
+  }
+  if (!(startingBalance > 0)) return { error: "Invalid starting balance" };
+
+  return {
+    account: {
+      id: createId(),
+      name: trimmed,
+      startingBalance,
+      createdAt: now,
+      runStartedAt: now,
+    },
+  };
+}
+
+// Flat positions for the same tokens, so a reset keeps the cards in place.
+export function resetPositions(tokens: TokenPosition[]): TokenPosition[] {
+  return tokens.map((t) => ({
+    address: t.address,
+    chainId: t.chainId,
+    pairAddress: t.pairAddress,
+    symbol: t.symbol,
+    holdings: 0,
+    trades: [],
+    pnl: 0,
+    fees: 0,
+    averageCost: 0,
+    currentPrice: t.currentPrice,
+  }));
+}
+
+export function summarizeRun(
+  account: Account,
+  finalEquity: number,
+  analytics: PerformanceAnalytics,
+  archivedAt: number
+): ArchivedRun {
+  return {
+    id: createId(),
+    accountId: account.id,
+    accountName: account.name,
+    startingBalance: account.startingBalance,
+    startedAt: account.runStartedAt,
+    archivedAt,
+    finalEquity,
+    returnPercent:
+      ((finalEquity - account.startingBalance) / account.startingBalance) * 100,
+    tradeCount: analytics.totalTrades,
+    winRate: analytics.winRate,
+    realizedPnL: analytics.realizedPnL,
+    maxDrawdownPercent: analytics.maxDrawdownPercent,
+    sharpeRatio: analytics.sharpeRatio,
+  };
+}
@@ -0,0 +1,241 @@
+// lib/alerts.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import type { ChainId } from "@/lib/chains";
+import { formatCurrency } from "@/lib/utils";
+
+export type AlertCondition =
+  | { kind: "price-cross"; direction: "above" | "below"; price: number }
+  // Absolute percent change in price within the window, either way.
+  | { kind: "percent-move"; percent: number; windowMinutes: number }
+  // Last-5m volume against the average 5m volume of the past hour.
+  | { kind: "volume-spike"; multiple: number }
+  // Liquidity down from its highest point within the window.
+  | { kind: "liquidity-drop"; percent: number; windowMinutes: number }
+  // Last-5m buys and sells swap which side is ahead.
+  | { kind: "ratio-flip" };
+
+export type AlertKind = AlertCondition["kind"];
+
+export interface Alert {
+  id: string;
+  address: string;
+  chainId: ChainId;
+  symbol: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  createdAt: number;
+  lastTriggeredAt?: number;
+}
+
+// One entry in the in-app feed.
+export interface AlertEvent {
+  id: string;
+  alertId: string;
+  address: string;
+  symbol: string;
+  message: string;
+  price: number;
+  timestamp: number;
+}
+
+interface AlertSample {
+  timestamp: number;
+  price: number;
+  liquidity: number;
+}
+
+// Evaluation state for one alert. Kept in memory only: windows refill from
+// live updates after a reload.
+export interface AlertRuntime {
+  // Whether the condition held on the previous update; unset until the
+  // first update, which only primes it.
+  met?: boolean;
+  // Side that led on the previous update, for ratio flips.
+  leader?: "buys" | "sells";
+  samples: AlertSample[];
+}
+
+export const ALERT_FEED_LIMIT = 100;
+
+const MINUTE_MS = 60 * 1000;
+
+export function createAlertRuntime(): AlertRuntime {
+  return { samples: [] };
+}
+
+function createId(): string {
+  return Math.random().toString(36).substring(7);
+}
+
+export function validateCondition(condition: AlertCondition): string | null {
+  switch (condition.kind) {
+    case "price-cross":
+      return condition.price > 0 ? null : "Enter a price above zero";
+    case "percent-move":
+    case "liquidity-drop":
+      if (!(condition.percent > 0)) return "Enter a percent above zero";
+      if (condition.kind === "liquidity-drop" && condition.percent >= 100) {
+        return "Liquidity can't drop by 100% or more";
+      }
+      return condition.windowMinutes > 0
+        ? null
+        : "Enter a window of at least one minute";
+    case "volume-spike":
+      return condition.multiple > 1 ? null : "Multiple must be above 1x";
+    case "ratio-flip":
+      return null;
+  }
+}
+
+export function createAlert(
+  token: { address: string; chainId: ChainId; symbol: string },
+  condition: AlertCondition,
+  now: number
+): { alert: Alert } | { error: string } {
+  const error = validateCondition(condition);
+  if (error) return { error };
+
+  return {
+    alert: {
+      id: createId(),
+      address: token.address.toLowerCase(),
+      chainId: token.chainId,
+      symbol: token.symbol,
+      condition,
+      enabled: true,
+      createdAt: now,
+    },
+  };
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case "price-cross":
+      return `Price crosses ${condition.direction} $${condition.price}`;
+    case "percent-move":
+      return `Price moves ${condition.percent}% within ${condition.windowMinutes}m`;
+    case "volume-spike":
+      return `5m volume ${condition.multiple}x the hourly average`;
+    case "liquidity-drop":
+      return `Liquidity drops ${condition.percent}% within ${condition.windowMinutes}m`;
+    case "ratio-flip":
+      return "5m buy/sell ratio flips";
+  }
+}
+
+function getLeader(pair: DexScreenerPair): "buys" | "sells" | undefined {
+  const buys = pair.txns?.m5?.buys ?? 0;
+  const sells = pair.txns?.m5?.sells ?? 0;
+  if (buys === sells) return undefined;
+  return buys > sells ? "buys" : "sells";
+}
+
+// Returns the trigger message when the condition holds, null otherwise.
+function checkCondition(
+  condition: AlertCondition,
+  samples: AlertSample[],
+  pair: DexScreenerPair,
+  sample: AlertSample
+): string | null {
+  switch (condition.kind) {
+    case "price-cross": {
+      const crossed =
+        condition.direction === "above"
+          ? sample.price >= condition.price
+          : sample.price <= condition.price;
+      return crossed
+        ? `Price ${condition.direction} $${condition.price} at ${formatCurrency(
+            sample.price,
+            6
+          )}`
+        : null;
+    }
+    case "percent-move": {
+      const oldest = samples[0];
+      if (!oldest || !(oldest.price > 0)) return null;
+      const change = ((sample.price - oldest.price) / oldest.price) * 100;
+      return Math.abs(change) >= condition.percent
+        ? `Price ${change >= 0 ? "up" : "down"} ${Math.abs(change).toFixed(
+            1
+          )}% in ${condition.windowMinutes}m`
+        : null;
+    }
+    case "volume-spike": {
+      const average = (pair.volume?.h1 ?? 0) / 12;
+      const recent = pair.volume?.m5 ?? 0;
+      if (!(average > 0)) return null;
+      const multiple = recent / average;
+      return multiple >= condition.multiple
+        ? `5m volume is ${multiple.toFixed(1)}x the hourly average`
+        : null;
+    }
+    case "liquidity-drop": {
+      const peak = Math.max(...samples.map((s) => s.liquidity));
+      if (!(peak > 0)) return null;
+      const drop = ((peak - sample.liquidity) / peak) * 100;
+      return drop >= condition.percent
+        ? `Liquidity down ${drop.toFixed(1)}% in ${condition.windowMinutes}m`
+        : null;
+    }
+    case "ratio-flip":
+      return null;
+  }
+}
+
+function windowMinutes(condition: AlertCondition): number {
+  return "windowMinutes" in condition ? condition.windowMinutes : 0;
+}
+
+// Feeds one pair update to an alert. Alerts fire when their condition
+// starts to hold, not while it keeps holding, and never on the first update
+// they see.
+export function evaluateAlert(
+  alert: Alert,
+  runtime: AlertRuntime,
+  pair: DexScreenerPair,
+  now: number
+): { runtime: AlertRuntime; event: AlertEvent | null } {
+  const sample: AlertSample = {
+    timestamp: now,
+    price: parseFloat(pair.priceUsd),
+    liquidity: pair.liquidity?.usd ?? 0,
+  };
+  const cutoff = now - windowMinutes(alert.condition) * MINUTE_MS;
+  const samples = [
+    ...runtime.samples.filter((s) => s.timestamp >= cutoff),
+    sample,
+  ];
+
+  // A flip is an event rather than a level, so it never counts as still
+  // holding on the next update.
+  const leader = getLeader(pair) ?? runtime.leader;
+  const message =
+    alert.condition.kind === "ratio-flip"
+      ? runtime.leader && leader !== runtime.leader
+        ? `${leader === "buys" ? "Buys" : "Sells"} took the lead`
+        : null
+      : checkCondition(alert.condition, samples, pair, sample);
+  const next: AlertRuntime = {
+    met: alert.condition.kind === "ratio-flip" ? false : message !== null,
+    leader,
+    samples,
+  };
+
+  const primed = runtime.met !== undefined;
+  if (!alert.enabled || !primed || !message || runtime.met) {
+    return { runtime: next, event: null };
+  }
+
+  return {
+    runtime: next,
+    event: {
+      id: createId(),
+      alertId: alert.id,
+      address: alert.address,
+      symbol: alert.symbol,
+      message,
+      price: sample.price,
+      timestamp: now,
+    },
+  };
+}
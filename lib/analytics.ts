@@ -0,0 +1,212 @@
+// lib/analytics.ts
+import { calculatePositionPnL } from "@/lib/portfolio";
+import type { CostBasisMethod } from "@/lib/cost-basis";
+import type { Trade, TokenPosition } from "@/lib/types";
+
+export interface EquitySample {
+  timestamp: number;
+  equity: number;
+}
+
+export interface TradeStats {
+  // Sells are the trades that realize P/L, so they are what gets scored.
+  closedTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  averageWin: number;
+  averageLoss: number;
+  profitFactor: number;
+  expectancy: number;
+  longestLosingStreak: number;
+  realizedPnL: number;
+  totalFees: number;
+  volume: number;
+}
+
+export interface TokenBreakdown extends TradeStats {
+  address: string;
+  symbol: string;
+  trades: number;
+  unrealizedPnL: number;
+}
+
+export interface PerformanceAnalytics extends TradeStats {
+  totalTrades: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  // Null until there is enough history to annualize.
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  tokens: TokenBreakdown[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const HOURS_PER_YEAR = 365 * 24;
+// Ratios over less history than this are noise, so none are reported.
+export const RISK_RATIO_MIN_SPAN = 24 * HOUR_MS;
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0;
+}
+
+// Win/loss statistics over a set of trades, in chronological order or not.
+export function calculateTradeStats(trades: Trade[]): TradeStats {
+  const closed = trades
+    .filter((t) => t.type === "sell" && t.pnl !== undefined)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const pnls = closed.map((t) => t.pnl!);
+  const wins = pnls.filter((p) => p > 0);
+  const losses = pnls.filter((p) => p < 0);
+  const grossWin = sum(wins);
+  const grossLoss = -sum(losses);
+
+  let streak = 0;
+  let longestLosingStreak = 0;
+  for (const pnl of pnls) {
+    streak = pnl < 0 ? streak + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+  }
+
+  return {
+    closedTrades: closed.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: closed.length > 0 ? (wins.length / closed.length) * 100 : 0,
+    averageWin: mean(wins),
+    averageLoss: losses.length > 0 ? grossLoss / losses.length : 0,
+    // Infinite when nothing has lost yet; 0 when nothing has closed.
+    profitFactor:
+      grossLoss > 0 ? grossWin / grossLoss : grossWin > 0 ? Infinity : 0,
+    expectancy: mean(pnls),
+    longestLosingStreak,
+    realizedPnL: sum(pnls),
+    totalFees: sum(trades.map((t) => t.fees.total)),
+    volume: sum(trades.map((t) => t.value)),
+  };
+}
+
+export function calculateDrawdown(samples: EquitySample[]) {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+
+  for (const { equity } of samples) {
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    if (peak > 0) {
+      maxDrawdownPercent = Math.max(
+        maxDrawdownPercent,
+        ((peak - equity) / peak) * 100
+      );
+    }
+  }
+  return { maxDrawdown, maxDrawdownPercent };
+}
+
+// Equity on the hour from the first sample on: the latest sample at or
+// before each hour. Samples must be in time order.
+function resampleHourly(sorted: EquitySample[]): number[] {
+  const end = sorted[sorted.length - 1].timestamp;
+  const values: number[] = [];
+  let i = 0;
+  for (let t = sorted[0].timestamp; t <= end; t += HOUR_MS) {
+    while (i + 1 < sorted.length && sorted[i + 1].timestamp <= t) i++;
+    values.push(sorted[i].equity);
+  }
+  return values;
+}
+
+// Annualized Sharpe and Sortino ratios (risk-free rate 0) from hourly
+// returns. Samples are irregular and often seconds apart, so they are
+// resampled first; annualizing raw sample-to-sample returns would scale the
+// ratios into the thousands. Null below RISK_RATIO_MIN_SPAN of history.
+export function calculateRiskRatios(samples: EquitySample[]): {
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+} {
+  const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  const span =
+    sorted.length > 0
+      ? sorted[sorted.length - 1].timestamp - sorted[0].timestamp
+      : 0;
+  if (span < RISK_RATIO_MIN_SPAN) {
+    return { sharpeRatio: null, sortinoRatio: null };
+  }
+
+  const hourly = resampleHourly(sorted);
+  const returns: number[] = [];
+  for (let i = 1; i < hourly.length; i++) {
+    if (hourly[i - 1] > 0) returns.push(hourly[i] / hourly[i - 1] - 1);
+  }
+  const scale = Math.sqrt(HOURS_PER_YEAR);
+
+  const average = mean(returns);
+  const deviation = Math.sqrt(mean(returns.map((r) => (r - average) ** 2)));
+  const downside = Math.sqrt(mean(returns.map((r) => Math.min(r, 0) ** 2)));
+
+  return {
+    sharpeRatio: deviation > 0 ? (average / deviation) * scale : 0,
+    sortinoRatio: downside > 0 ? (average / downside) * scale : 0,
+  };
+}
+
+// Equity as it stood after each realized trade: the starting balance plus
+// cumulative realized P/L. Useful when no marked-to-market samples exist.
+export function buildRealizedEquity(
+  trades: Trade[],
+  initialBalance: number
+): EquitySample[] {
+  const closed = trades
+    .filter((t) => t.type === "sell" && t.pnl !== undefined)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (closed.length === 0) return [];
+
+  let equity = initialBalance;
+  const first = Math.min(...trades.map((t) => t.timestamp));
+  return [
+    { timestamp: first, equity },
+    ...closed.map((t) => {
+      equity += t.pnl!;
+      return { timestamp: t.timestamp, equity };
+    }),
+  ];
+}
+
+export function calculateTokenBreakdown(
+  tokens: TokenPosition[],
+  method?: CostBasisMethod
+): TokenBreakdown[] {
+  return tokens
+    .filter((token) => token.trades.length > 0)
+    .map((token) => ({
+      address: token.address,
+      symbol: token.symbol,
+      trades: token.trades.length,
+      unrealizedPnL: calculatePositionPnL(
+        token.trades,
+        token.currentPrice,
+        method
+      ).unrealizedPnL,
+      ...calculateTradeStats(token.trades),
+    }));
+}
+
+export function calculateAnalytics(
+  trades: Trade[],
+  tokens: TokenPosition[],
+  equity: EquitySample[],
+  method?: CostBasisMethod
+): PerformanceAnalytics {
+  return {
+    totalTrades: trades.length,
+    ...calculateTradeStats(trades),
+    ...calculateDrawdown(equity),
+    ...calculateRiskRatios(equity),
+    tokens: calculateTokenBreakdown(tokens, method),
+  };
+}
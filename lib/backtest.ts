@@ -0,0 +1,342 @@
+// lib/backtest.ts
+import { DEFAULT_FEE_SETTINGS, type FeeSettings } from "@/lib/fees";
+import {
+  DEFAULT_COST_BASIS_METHOD,
+  type CostBasisMethod,
+} from "@/lib/cost-basis";
+import {
+  calculatePositionPnL,
+  executeTrade,
+  markToMarket,
+  type Portfolio,
+} from "@/lib/portfolio";
+import {
+  buildStrategyContext,
+  runStrategyTick,
+  startStrategy,
+  type Strategy,
+  type StrategyDecision,
+  type StrategyRun,
+} from "@/lib/strategy";
+import { calculateAnalytics, type PerformanceAnalytics } from "@/lib/analytics";
+import { getEquityPoint, type EquityPoint } from "@/lib/equity";
+import type { Recording } from "@/lib/recording";
+import type { Trade } from "@/lib/types";
+
+export interface BacktestOptions {
+  initialBalance: number;
+  feeSettings: FeeSettings;
+  costBasisMethod: CostBasisMethod;
+  // Only trade these addresses; defaults to every address in the recording.
+  addresses?: string[];
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  initialBalance: 1000,
+  feeSettings: DEFAULT_FEE_SETTINGS,
+  costBasisMethod: DEFAULT_COST_BASIS_METHOD,
+};
+
+export interface BacktestPosition {
+  address: string;
+  symbol: string;
+  holdings: number;
+  averageCost: number;
+  lastPrice: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  fees: number;
+}
+
+export interface BacktestSummary {
+  startTime: number;
+  endTime: number;
+  ticks: number;
+  initialBalance: number;
+  finalEquity: number;
+  totalReturn: number;
+  totalReturnPercent: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalFees: number;
+  tradeCount: number;
+  winningSells: number;
+  losingSells: number;
+  winRate: number;
+  maxDrawdownPercent: number;
+  rejectedOrders: number;
+  strategyErrors: number;
+}
+
+export interface BacktestResult {
+  strategy: string;
+  summary: BacktestSummary;
+  analytics: PerformanceAnalytics;
+  positions: BacktestPosition[];
+  // Oldest first.
+  trades: Trade[];
+  equityCurve: EquityPoint[];
+  decisions: StrategyDecision[];
+}
+
+// Plays a recording through a strategy with the same execution, fee and P&L
+// code the app uses. Runs synchronously and touches nothing outside its
+// arguments, so it is safe to call from Node.
+export function runBacktest(
+  recording: Recording,
+  strategy: Strategy,
+  options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS
+): BacktestResult {
+  const allowed = options.addresses?.map((a) => a.toLowerCase());
+  let portfolio: Portfolio = {
+    balance: options.initialBalance,
+    tokens: [],
+    trades: [],
+    orders: [],
+    costBasisMethod: options.costBasisMethod,
+  };
+  const runs = new Map<string, StrategyRun>();
+  const decisions: StrategyDecision[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let ticks = 0;
+
+  for (const tick of recording.ticks) {
+    const address = tick.address.toLowerCase();
+    if (allowed && !allowed.includes(address)) continue;
+
+    const price = parseFloat(tick.pair.priceUsd);
+    if (!(price > 0)) continue;
+    ticks++;
+
+    if (!runs.has(address)) {
+      portfolio = {
+        ...portfolio,
+        tokens: [
+          ...portfolio.tokens,
+          {
+            address,
+            chainId: tick.pair.chainId,
+            symbol: tick.pair.baseToken.symbol,
+            holdings: 0,
+            trades: [],
+            pnl: 0,
+            fees: 0,
+            averageCost: 0,
+            currentPrice: price,
+          },
+        ],
+      };
+      runs.set(address, startStrategy(strategy, address, tick.timestamp));
+    }
+
+    portfolio = markToMarket(portfolio, address, price);
+    const context = buildStrategyContext(
+      portfolio,
+      address,
+      tick.pair,
+      tick.timestamp
+    );
+    if (context) {
+      decisions.push(
+        ...runStrategyTick(runs.get(address)!, context, (order) => {
+          const result = executeTrade(
+            portfolio,
+            tick.pair,
+            order,
+            options.feeSettings
+          );
+          if ("error" in result) return result.error;
+          portfolio = result.portfolio;
+          return null;
+        })
+      );
+    }
+
+    const point = getEquityPoint(portfolio, tick.timestamp);
+    // Ticks for several tokens can share a timestamp; keep the last.
+    if (equityCurve[equityCurve.length - 1]?.timestamp === tick.timestamp) {
+      equityCurve[equityCurve.length - 1] = point;
+    } else {
+      equityCurve.push(point);
+    }
+  }
+
+  const positions: BacktestPosition[] = portfolio.tokens.map((token) => {
+    const pnl = calculatePositionPnL(
+      token.trades,
+      token.currentPrice,
+      options.costBasisMethod
+    );
+    return {
+      address: token.address,
+      symbol: token.symbol,
+      holdings: token.holdings,
+      averageCost: pnl.averageCost,
+      lastPrice: token.currentPrice,
+      realizedPnL: pnl.realizedPnL,
+      unrealizedPnL: pnl.unrealizedPnL,
+      fees: pnl.totalFees,
+    };
+  });
+
+  const trades = [...portfolio.trades].reverse();
+  const analytics = calculateAnalytics(
+    trades,
+    portfolio.tokens,
+    equityCurve,
+    options.costBasisMethod
+  );
+  const finalEquity =
+    equityCurve[equityCurve.length - 1]?.equity ?? options.initialBalance;
+  const totalReturn = finalEquity - options.initialBalance;
+
+  return {
+    strategy: strategy.name,
+    summary: {
+      startTime: equityCurve[0]?.timestamp ?? recording.header.startedAt,
+      endTime:
+        equityCurve[equityCurve.length - 1]?.timestamp ??
+        recording.header.startedAt,
+      ticks,
+      initialBalance: options.initialBalance,
+      finalEquity,
+      totalReturn,
+      totalReturnPercent: (totalReturn / options.initialBalance) * 100,
+      realizedPnL: positions.reduce((sum, p) => sum + p.realizedPnL, 0),
+      unrealizedPnL: positions.reduce((sum, p) => sum + p.unrealizedPnL, 0),
+      totalFees: positions.reduce((sum, p) => sum + p.fees, 0),
+      tradeCount: trades.length,
+      winningSells: analytics.wins,
+      losingSells: analytics.losses,
+      winRate: analytics.winRate,
+      maxDrawdownPercent: analytics.maxDrawdownPercent,
+      rejectedOrders: decisions.filter((d) => d.status === "rejected").length,
+      strategyErrors: decisions.filter((d) => d.action === "error").length,
+    },
+    analytics,
+    positions,
+    trades,
+    equityCurve,
+    decisions,
+  };
+}
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+function formatRatio(value: number | null): string {
+  if (value === null) return "-";
+  return isFinite(value) ? value.toFixed(2) : "∞";
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace("T", " ").slice(0, 19);
+}
+
+// Evenly spaced samples of the equity curve for a readable table.
+function sampleCurve(curve: EquityPoint[], count: number): EquityPoint[] {
+  if (curve.length <= count) return curve;
+  const step = (curve.length - 1) / (count - 1);
+  return Array.from({ length: count }, (_, i) => curve[Math.round(i * step)]);
+}
+
+export function toMarkdownReport(
+  result: BacktestResult,
+  title: string
+): string {
+  const { summary, analytics } = result;
+  const lines = [
+    `## ${title}`,
+    "",
+    `Strategy: **${result.strategy}** · ${formatTime(
+      summary.startTime
+    )} → ${formatTime(summary.endTime)} UTC · ${summary.ticks} ticks`,
+    "",
+    "| Metric | Value |",
+    "| --- | --- |",
+    `| Starting balance | ${formatUsd(summary.initialBalance)} |`,
+    `| Final equity | ${formatUsd(summary.finalEquity)} |`,
+    `| Total return | ${formatUsd(
+      summary.totalReturn
+    )} (${summary.totalReturnPercent.toFixed(2)}%) |`,
+    `| Realized P/L | ${formatUsd(summary.realizedPnL)} |`,
+    `| Unrealized P/L | ${formatUsd(summary.unrealizedPnL)} |`,
+    `| Fees paid | ${formatUsd(summary.totalFees)} |`,
+    `| Trades | ${summary.tradeCount} |`,
+    `| Win rate (sells) | ${summary.winRate.toFixed(1)}% (${
+      summary.winningSells
+    }W / ${summary.losingSells}L) |`,
+    `| Average win / loss | ${formatUsd(analytics.averageWin)} / ${formatUsd(
+      analytics.averageLoss
+    )} |`,
+    `| Profit factor | ${formatRatio(analytics.profitFactor)} |`,
+    `| Expectancy | ${formatUsd(analytics.expectancy)} per sell |`,
+    `| Longest losing streak | ${analytics.longestLosingStreak} |`,
+    `| Max drawdown | ${formatUsd(
+      analytics.maxDrawdown
+    )} (${summary.maxDrawdownPercent.toFixed(2)}%) |`,
+    `| Sharpe / Sortino | ${formatRatio(analytics.sharpeRatio)} / ${formatRatio(
+      analytics.sortinoRatio
+    )} |`,
+    `| Rejected orders | ${summary.rejectedOrders} |`,
+    `| Strategy errors | ${summary.strategyErrors} |`,
+    "",
+  ];
+
+  if (result.positions.length > 0) {
+    lines.push(
+      "### Positions",
+      "",
+      "| Token | Holdings | Avg cost | Last price | Realized | Unrealized | Fees |",
+      "| --- | ---: | ---: | ---: | ---: | ---: | ---: |",
+      ...result.positions.map(
+        (p) =>
+          `| ${p.symbol} | ${p.holdings.toFixed(6)} | $${p.averageCost.toFixed(
+            6
+          )} | $${p.lastPrice.toFixed(6)} | ${formatUsd(
+            p.realizedPnL
+          )} | ${formatUsd(p.unrealizedPnL)} | ${formatUsd(p.fees)} |`
+      ),
+      ""
+    );
+  }
+
+  lines.push("### Trades", "");
+  if (result.trades.length === 0) {
+    lines.push("No trades.", "");
+  } else {
+    lines.push(
+      "| Time (UTC) | Side | Token | Amount | Price | Value | Fees | P/L |",
+      "| --- | --- | --- | ---: | ---: | ---: | ---: | ---: |",
+      ...result.trades.map(
+        (t) =>
+          `| ${formatTime(t.timestamp)} | ${t.type} | ${
+            t.symbol
+          } | ${t.amount.toFixed(6)} | $${t.price.toFixed(6)} | ${formatUsd(
+            t.value
+          )} | ${formatUsd(t.fees.total)} | ${
+            t.pnl !== undefined ? formatUsd(t.pnl) : ""
+          } |`
+      ),
+      ""
+    );
+  }
+
+  lines.push(
+    "### Equity Curve",
+    "",
+    "| Time (UTC) | Cash | Positions | Equity |",
+    "| --- | ---: | ---: | ---: |",
+    ...sampleCurve(result.equityCurve, 20).map(
+      (p) =>
+        `| ${formatTime(p.timestamp)} | ${formatUsd(p.cash)} | ${formatUsd(
+          p.positions
+        )} | ${formatUsd(p.equity)} |`
+    ),
+    ""
+  );
+
+  return lines.join("\n");
+}
@@ -0,0 +1,69 @@
+// lib/candles.ts
+export interface PriceTick {
+  timestamp: number;
+  price: number;
+}
+
+export interface CandleData {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export const CANDLE_INTERVALS = {
+  "15s": 15_000,
+  "1m": 60_000,
+  "5m": 300_000,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+// Buckets ticks into OHLC bars aligned to the interval boundary. Each bar's
+// open, high and low come from its own ticks only, so a jump between bars
+// shows as a new open rather than a wider range. Intervals that saw no ticks
+// are filled with a flat bar at the previous close so the chart's time axis
+// stays evenly spaced.
+export function buildCandles(
+  ticks: PriceTick[],
+  intervalMs: number,
+  limit: number
+): CandleData[] {
+  const candles: CandleData[] = [];
+
+  for (const tick of ticks) {
+    if (!(tick.price > 0)) continue;
+    const time = Math.floor(tick.timestamp / intervalMs) * intervalMs;
+    const last = candles[candles.length - 1];
+
+    if (last && last.time === time) {
+      last.high = Math.max(last.high, tick.price);
+      last.low = Math.min(last.low, tick.price);
+      last.close = tick.price;
+      continue;
+    }
+
+    if (last) {
+      for (let t = last.time + intervalMs; t < time; t += intervalMs) {
+        candles.push({
+          time: t,
+          open: last.close,
+          high: last.close,
+          low: last.close,
+          close: last.close,
+        });
+      }
+    }
+
+    candles.push({
+      time,
+      open: tick.price,
+      high: tick.price,
+      low: tick.price,
+      close: tick.price,
+    });
+  }
+
+  return candles.slice(-limit);
+}
@@ -0,0 +1,56 @@
+// lib/chains.ts
+
+// DexScreener chain ids. Recordings and the API can carry chains that aren't
+// listed in CHAINS, so positions store the raw id.
+export type ChainId = string;
+
+export interface ChainInfo {
+  name: string;
+  // Short label for badges.
+  label: string;
+  addressFormat: "solana" | "evm";
+}
+
+export const CHAINS: Record<ChainId, ChainInfo> = {
+  solana: { name: "Solana", label: "SOL", addressFormat: "solana" },
+  ethereum: { name: "Ethereum", label: "ETH", addressFormat: "evm" },
+  base: { name: "Base", label: "BASE", addressFormat: "evm" },
+  bsc: { name: "BNB Chain", label: "BSC", addressFormat: "evm" },
+  arbitrum: { name: "Arbitrum", label: "ARB", addressFormat: "evm" },
+  polygon: { name: "Polygon", label: "POL", addressFormat: "evm" },
+  avalanche: { name: "Avalanche", label: "AVAX", addressFormat: "evm" },
+};
+
+export const DEFAULT_CHAIN: ChainId = "solana";
+
+const ADDRESS_PATTERNS: Record<ChainInfo["addressFormat"], RegExp> = {
+  // Base58 public keys: 32 bytes encode to 32–44 characters, no 0/O/I/l.
+  solana: /^[1-9A-HJ-NP-Za-km-z]{32,44}$/,
+  evm: /^0x[0-9a-fA-F]{40}$/,
+};
+
+export function getChainLabel(chainId: ChainId): string {
+  return CHAINS[chainId]?.label ?? chainId.toUpperCase();
+}
+
+export function getChainName(chainId: ChainId): string {
+  return CHAINS[chainId]?.name ?? chainId;
+}
+
+// Returns why an address can't be on the chain, or null if it can.
+export function validateAddress(
+  chainId: ChainId,
+  address: string
+): string | null {
+  const trimmed = address.trim();
+  if (!trimmed) return "Enter a token address";
+
+  const chain = CHAINS[chainId];
+  if (!chain) return null;
+  if (!ADDRESS_PATTERNS[chain.addressFormat].test(trimmed)) {
+    return chain.addressFormat === "evm"
+      ? `Not a valid ${chain.name} address (expected 0x followed by 40 hex characters)`
+      : `Not a valid ${chain.name} address (expected a base58 public key)`;
+  }
+  return null;
+}
@@ -0,0 +1,104 @@
+// lib/clock.ts
+export type TimerHandle = unknown;
+
+// Time and timers behind one interface so polling and rate limiting can run
+// against a manual clock in scripts and checks.
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) =>
+    clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+interface ManualTimer {
+  id: number;
+  dueAt: number;
+  interval: number | null;
+  callback: () => void;
+}
+
+// A clock that only moves when advance() is called. Due timers run in order,
+// and promises they resolve get a chance to settle between timers.
+export class ManualClock implements Clock {
+  private time: number;
+  private nextId = 1;
+  private timers: Map<number, ManualTimer> = new Map();
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    return this.addTimer(callback, ms, null);
+  }
+
+  clearTimeout(handle: TimerHandle) {
+    this.timers.delete(handle as number);
+  }
+
+  setInterval(callback: () => void, ms: number): TimerHandle {
+    return this.addTimer(callback, ms, Math.max(1, ms));
+  }
+
+  clearInterval(handle: TimerHandle) {
+    this.timers.delete(handle as number);
+  }
+
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+
+    for (;;) {
+      await Promise.resolve();
+      const next = Array.from(this.timers.values())
+        .filter((t) => t.dueAt <= target)
+        .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)[0];
+      if (!next) break;
+
+      this.time = Math.max(this.time, next.dueAt);
+      if (next.interval === null) {
+        this.timers.delete(next.id);
+      } else {
+        next.dueAt += next.interval;
+      }
+      next.callback();
+      await flushPromises();
+    }
+
+    this.time = target;
+    await flushPromises();
+  }
+
+  private addTimer(
+    callback: () => void,
+    ms: number,
+    interval: number | null
+  ): number {
+    const id = this.nextId++;
+    this.timers.set(id, {
+      id,
+      dueAt: this.time + Math.max(0, ms),
+      interval,
+      callback,
+    });
+    return id;
+  }
+}
+
+async function flushPromises() {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
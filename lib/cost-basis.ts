@@ -0,0 +1,156 @@
+// lib/cost-basis.ts
+import type { Trade } from "@/lib/types";
+
+export type CostBasisMethod = "average" | "fifo" | "lifo" | "hifo";
+
+export const COST_BASIS_METHODS: Record<CostBasisMethod, string> = {
+  average: "Average Cost",
+  fifo: "FIFO",
+  lifo: "LIFO",
+  hifo: "HIFO",
+};
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = "average";
+
+// What's left of one buy. Cost includes the buy's fees, so a lot's cost per
+// token is what it actually took to acquire.
+export interface Lot {
+  tradeId: string;
+  acquiredAt: number;
+  quantity: number;
+  cost: number;
+}
+
+export interface LotPnL {
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+  totalTokens: number;
+  totalFees: number;
+  averageCost: number;
+  openLots: Lot[];
+  // Realized P/L of each sell, by trade id.
+  realizedByTrade: Record<string, number>;
+}
+
+// Matches the dust threshold positions use, so a fully sold lot disappears.
+const LOT_DUST = 1e-9;
+
+export function getLotCostPerToken(lot: Lot): number {
+  return lot.quantity > 0 ? lot.cost / lot.quantity : 0;
+}
+
+// The order lots are consumed in when selling.
+function sortForSale(lots: Lot[], method: CostBasisMethod): Lot[] {
+  switch (method) {
+    case "fifo":
+      return [...lots].sort((a, b) => a.acquiredAt - b.acquiredAt);
+    case "lifo":
+      return [...lots].sort((a, b) => b.acquiredAt - a.acquiredAt);
+    case "hifo":
+      return [...lots].sort(
+        (a, b) => getLotCostPerToken(b) - getLotCostPerToken(a)
+      );
+    case "average":
+      return lots;
+  }
+}
+
+// Removes `amount` tokens from the lots and returns the updated lots and the
+// cost basis of what was removed. Average cost draws from every lot pro rata,
+// which is the same as selling at the running average.
+function consumeLots(
+  lots: Lot[],
+  amount: number,
+  method: CostBasisMethod
+): { lots: Lot[]; cost: number } {
+  const total = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (total <= 0) return { lots, cost: 0 };
+
+  if (method === "average") {
+    const ratio = Math.min(amount / total, 1);
+    return {
+      lots: lots
+        .map((lot) => ({
+          ...lot,
+          quantity: lot.quantity * (1 - ratio),
+          cost: lot.cost * (1 - ratio),
+        }))
+        .filter((lot) => lot.quantity >= LOT_DUST),
+      cost: lots.reduce((sum, lot) => sum + lot.cost, 0) * ratio,
+    };
+  }
+
+  let remaining = amount;
+  let cost = 0;
+  const consumed = new Map<string, Lot>();
+  for (const lot of sortForSale(lots, method)) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    const takeCost = getLotCostPerToken(lot) * take;
+    cost += takeCost;
+    remaining -= take;
+    consumed.set(lot.tradeId, {
+      ...lot,
+      quantity: lot.quantity - take,
+      cost: lot.cost - takeCost,
+    });
+  }
+
+  return {
+    lots: lots
+      .map((lot) => consumed.get(lot.tradeId) ?? lot)
+      .filter((lot) => lot.quantity >= LOT_DUST),
+    cost,
+  };
+}
+
+// Replays a position's trades under a cost-basis method. Buy cost is value
+// plus fees; sale proceeds are value minus fees.
+export function calculateLotPnL(
+  trades: Trade[],
+  currentPrice: number,
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
+): LotPnL {
+  let lots: Lot[] = [];
+  let realizedPnL = 0;
+  let totalFees = 0;
+  const realizedByTrade: Record<string, number> = {};
+
+  for (const trade of trades) {
+    totalFees += trade.fees.total;
+    if (trade.type === "buy") {
+      lots = [
+        ...lots,
+        {
+          tradeId: trade.id,
+          acquiredAt: trade.timestamp,
+          quantity: trade.amount,
+          cost: trade.value + trade.fees.total,
+        },
+      ];
+    } else {
+      const sale = consumeLots(lots, trade.amount, method);
+      const proceeds = trade.amount * trade.price - trade.fees.total;
+      lots = sale.lots;
+      realizedByTrade[trade.id] = proceeds - sale.cost;
+      realizedPnL += proceeds - sale.cost;
+    }
+  }
+
+  const totalTokens = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const totalCost = lots.reduce((sum, lot) => sum + lot.cost, 0);
+  const unrealizedPnL =
+    totalTokens > 0 ? totalTokens * currentPrice - totalCost : 0;
+
+  return {
+    realizedPnL,
+    unrealizedPnL,
+    totalPnL: realizedPnL + unrealizedPnL,
+    totalTokens,
+    totalFees,
+    averageCost: totalTokens > 0 ? totalCost / totalTokens : 0,
+    openLots: lots,
+    realizedByTrade,
+  };
+}
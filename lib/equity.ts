@@ -0,0 +1,56 @@
+// lib/equity.ts
+import type { Portfolio } from "@/lib/portfolio";
+
+export interface EquityPoint {
+  timestamp: number;
+  cash: number;
+  // Holdings marked to their latest price.
+  positions: number;
+  equity: number;
+  // Taken right after a fill; later samples never replace it.
+  fill?: boolean;
+}
+
+// Price ticks arrive every few seconds per token; one sample per interval is
+// plenty for the chart and keeps the persisted history small.
+export const EQUITY_SAMPLE_INTERVAL = 10_000;
+export const MAX_EQUITY_SAMPLES = 4000;
+
+export function getPositionsValue(tokens: Portfolio["tokens"]): number {
+  return tokens.reduce((sum, t) => sum + t.holdings * t.currentPrice, 0);
+}
+
+export function getEquityPoint(
+  portfolio: Pick<Portfolio, "balance" | "tokens">,
+  timestamp: number
+): EquityPoint {
+  const positions = getPositionsValue(portfolio.tokens);
+  return {
+    timestamp,
+    cash: portfolio.balance,
+    positions,
+    equity: portfolio.balance + positions,
+  };
+}
+
+// Appends a sample unless the last one is too recent. Forced samples (after a
+// trade) are always kept: they replace a too-recent throttled sample, or are
+// appended after a too-recent fill, so every fill is captured.
+export function appendEquitySample(
+  samples: EquityPoint[],
+  point: EquityPoint,
+  force: boolean = false
+): EquityPoint[] {
+  let last = samples[samples.length - 1];
+  if (last && point.timestamp < last.timestamp) {
+    // The clock moved backwards (a replay seek); drop the samples after it.
+    samples = samples.filter((s) => s.timestamp <= point.timestamp);
+    last = samples[samples.length - 1];
+  }
+  const sample = force ? { ...point, fill: true } : point;
+  if (last && point.timestamp - last.timestamp < EQUITY_SAMPLE_INTERVAL) {
+    if (!force) return samples;
+    if (!last.fill) return [...samples.slice(0, -1), sample];
+  }
+  return [...samples, sample].slice(-MAX_EQUITY_SAMPLES);
+}
@@ -0,0 +1,103 @@
+// lib/execution.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+
+export interface Fill {
+  tokenAmount: number;
+  value: number;
+  price: number;
+  marketPrice: number;
+  priceImpact: number;
+}
+
+interface PoolReserves {
+  base: number;
+  quoteUsd: number;
+  price: number;
+}
+
+// Reserves are read from the pair's liquidity snapshot. The quote side is
+// valued in USD via the pair's own priceUsd/priceNative ratio; when DexScreener
+// omits a side we fall back to half of liquidity.usd, as in a balanced pool.
+function getReserves(pair: DexScreenerPair): PoolReserves | null {
+  const price = parseFloat(pair.priceUsd);
+  if (isNaN(price) || price <= 0) return null;
+
+  const liquidity = pair.liquidity;
+  const priceNative = parseFloat(pair.priceNative);
+  const quotePriceUsd = priceNative > 0 ? price / priceNative : 0;
+
+  let quoteUsd = (liquidity?.quote ?? 0) * quotePriceUsd;
+  if (!(quoteUsd > 0)) quoteUsd = (liquidity?.usd ?? 0) / 2;
+
+  let base = liquidity?.base ?? 0;
+  if (!(base > 0)) base = quoteUsd / price;
+
+  if (!(quoteUsd > 0) || !(base > 0)) return null;
+  return { base, quoteUsd, price };
+}
+
+function toFill(tokenAmount: number, value: number, marketPrice: number): Fill {
+  const price = value / tokenAmount;
+  return {
+    tokenAmount,
+    value,
+    price,
+    marketPrice,
+    priceImpact: ((price - marketPrice) / marketPrice) * 100,
+  };
+}
+
+// Constant-product (x * y = k) fills, anchored to the quoted spot price so the
+// impact reflects pool depth even when the reserves and priceUsd disagree.
+export function quoteBuy(pair: DexScreenerPair, usdIn: number): Fill | null {
+  if (!(usdIn > 0)) return null;
+  const reserves = getReserves(pair);
+  if (!reserves) return null;
+
+  const { quoteUsd, price } = reserves;
+  const effectivePrice = price * ((quoteUsd + usdIn) / quoteUsd);
+  return toFill(usdIn / effectivePrice, usdIn, price);
+}
+
+export function quoteSell(
+  pair: DexScreenerPair,
+  tokensIn: number
+): Fill | null {
+  if (!(tokensIn > 0)) return null;
+  const reserves = getReserves(pair);
+  if (!reserves) return null;
+
+  const { base, price } = reserves;
+  const effectivePrice = price * (base / (base + tokensIn));
+  return toFill(tokensIn, tokensIn * effectivePrice, price);
+}
+
+// Inverse of quoteSell: the token amount that must be sold to receive usdOut.
+export function quoteSellForValue(
+  pair: DexScreenerPair,
+  usdOut: number
+): Fill | null {
+  if (!(usdOut > 0)) return null;
+  const reserves = getReserves(pair);
+  if (!reserves) return null;
+
+  const { base, price } = reserves;
+  if (usdOut >= price * base) return null;
+  const tokensIn = (usdOut * base) / (price * base - usdOut);
+  return toFill(tokensIn, usdOut, price);
+}
+
+// Inverse of quoteBuy: the USD that must go into the pool to receive tokensOut.
+export function quoteBuyForTokens(
+  pair: DexScreenerPair,
+  tokensOut: number
+): Fill | null {
+  if (!(tokensOut > 0)) return null;
+  const reserves = getReserves(pair);
+  if (!reserves) return null;
+
+  const { quoteUsd, price } = reserves;
+  if (tokensOut * price >= quoteUsd) return null;
+  const usdIn = (tokensOut * price * quoteUsd) / (quoteUsd - tokensOut * price);
+  return toFill(tokensOut, usdIn, price);
+}
@@ -0,0 +1,141 @@
+// lib/fees.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import {
+  quoteBuy,
+  quoteBuyForTokens,
+  quoteSell,
+  quoteSellForValue,
+  type Fill,
+} from "@/lib/execution";
+import type { TradeFees } from "@/lib/types";
+
+// Pool swap fees as a fraction of the input amount, keyed by DexScreener dexId.
+// These are the most common fee tiers; pools with custom tiers will differ.
+export const DEX_SWAP_FEES: Record<string, number> = {
+  raydium: 0.0025,
+  orca: 0.003,
+  meteora: 0.0025,
+  lifinity: 0.002,
+  phoenix: 0.001,
+  pumpfun: 0.01,
+  uniswap: 0.003,
+  sushiswap: 0.003,
+  pancakeswap: 0.0025,
+  aerodrome: 0.003,
+};
+
+export const DEFAULT_SWAP_FEE = 0.003;
+
+// Token taxes are percentages (5 means 5%), as projects usually quote them.
+export interface TokenTax {
+  buy: number;
+  sell: number;
+}
+
+export interface FeeSettings {
+  networkFee: number;
+  priorityFee: number;
+  tokenTaxes: Record<string, TokenTax>;
+}
+
+export const DEFAULT_FEE_SETTINGS: FeeSettings = {
+  networkFee: 0.001,
+  priorityFee: 0.05,
+  tokenTaxes: {},
+};
+
+export interface FeeFill {
+  fill: Fill;
+  fees: TradeFees;
+}
+
+export function getSwapFeeRate(dexId: string): number {
+  return DEX_SWAP_FEES[dexId.toLowerCase()] ?? DEFAULT_SWAP_FEE;
+}
+
+export function getTokenTax(settings: FeeSettings, address: string): TokenTax {
+  return settings.tokenTaxes[address.toLowerCase()] ?? { buy: 0, sell: 0 };
+}
+
+function buildFees(
+  swap: number,
+  tax: number,
+  settings: FeeSettings
+): TradeFees {
+  const network = settings.networkFee + settings.priorityFee;
+  return { swap, network, tax, total: swap + network + tax };
+}
+
+// The swap fee comes off the input before it reaches the pool and the buy tax
+// is withheld from the tokens received, so the returned fill only covers what
+// actually lands in the position. Network fees are charged on top.
+export function quoteBuyWithFees(
+  pair: DexScreenerPair,
+  usdIn: number,
+  settings: FeeSettings
+): FeeFill | null {
+  const swap = usdIn * getSwapFeeRate(pair.dexId);
+  const fill = quoteBuy(pair, usdIn - swap);
+  if (!fill) return null;
+
+  const taxRate = getTokenTax(settings, pair.baseToken.address).buy / 100;
+  const tax = fill.value * taxRate;
+
+  return {
+    fill: {
+      ...fill,
+      tokenAmount: fill.tokenAmount * (1 - taxRate),
+      value: fill.value - tax,
+    },
+    fees: buildFees(swap, tax, settings),
+  };
+}
+
+// The USD amount to pass to quoteBuyWithFees so that tokensOut land in the
+// position after the swap fee and buy tax.
+export function getBuyAmountForTokens(
+  pair: DexScreenerPair,
+  tokensOut: number,
+  settings: FeeSettings
+): number | null {
+  const taxRate = getTokenTax(settings, pair.baseToken.address).buy / 100;
+  if (taxRate >= 1) return null;
+  const fill = quoteBuyForTokens(pair, tokensOut / (1 - taxRate));
+  if (!fill) return null;
+  return fill.value / (1 - getSwapFeeRate(pair.dexId));
+}
+
+function withSellFees(
+  pair: DexScreenerPair,
+  fill: Fill,
+  settings: FeeSettings
+): FeeFill {
+  const swap = fill.value * getSwapFeeRate(pair.dexId);
+  const taxRate = getTokenTax(settings, pair.baseToken.address).sell / 100;
+  const tax = fill.value * taxRate;
+
+  return { fill, fees: buildFees(swap, tax, settings) };
+}
+
+// Sells are sized by gross proceeds; all fees come out of those proceeds.
+export function quoteSellWithFees(
+  pair: DexScreenerPair,
+  usdOut: number,
+  settings: FeeSettings
+): FeeFill | null {
+  const fill = quoteSellForValue(pair, usdOut);
+  if (!fill) return null;
+
+  return withSellFees(pair, fill, settings);
+}
+
+export function quoteSellTokensWithFees(
+  pair: DexScreenerPair,
+  tokensIn: number,
+  settings: FeeSettings
+): FeeFill | null {
+  const fill = quoteSell(pair, tokensIn);
+  if (!fill) return null;
+
+  return withSellFees(pair, fill, settings);
+}
@@ -0,0 +1,439 @@
+// lib/ledger.ts
+import { calculatePositionPnL, type Portfolio } from "@/lib/portfolio";
+import type { CostBasisMethod } from "@/lib/cost-basis";
+import { DEFAULT_CHAIN } from "@/lib/chains";
+import type { Trade, TokenPosition, TriggerReason } from "@/lib/types";
+
+export const LEDGER_VERSION = 1;
+
+// A trade plus the token it belongs to, which Trade itself doesn't carry.
+export interface LedgerEntry extends Trade {
+  address: string;
+}
+
+export interface LedgerFile {
+  version: number;
+  exportedAt: number;
+  initialBalance: number;
+  trades: LedgerEntry[];
+}
+
+export interface LedgerRowError {
+  // 1-based data row (CSV header excluded) or array index + 1 in JSON.
+  row: number;
+  message: string;
+}
+
+export type LedgerImportResult =
+  | { portfolio: Portfolio; initialBalance: number }
+  | { errors: LedgerRowError[] };
+
+const TRIGGER_REASONS: TriggerReason[] = [
+  "stop-loss",
+  "take-profit",
+  "limit",
+  "trailing-stop",
+  "strategy",
+];
+
+const CSV_COLUMNS = [
+  "timestamp",
+  "symbol",
+  "address",
+  "chain",
+  "side",
+  "amount",
+  "price",
+  "value",
+  "market_price",
+  "price_impact",
+  "swap_fee",
+  "network_fee",
+  "tax",
+  "total_fee",
+  "pnl",
+  "pnl_percent",
+  "trigger",
+  "order_id",
+  "id",
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+// Every trade with its token address, oldest first.
+export function buildLedger(tokens: TokenPosition[]): LedgerEntry[] {
+  return tokens
+    .flatMap((token) =>
+      token.trades.map((trade) => ({
+        ...trade,
+        address: token.address,
+        chainId: trade.chainId ?? token.chainId,
+      }))
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function toLedgerJson(
+  tokens: TokenPosition[],
+  initialBalance: number
+): string {
+  const file: LedgerFile = {
+    version: LEDGER_VERSION,
+    exportedAt: Date.now(),
+    initialBalance,
+    trades: buildLedger(tokens),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toLedgerCsv(tokens: TokenPosition[]): string {
+  const rows = buildLedger(tokens).map((entry) => {
+    const values: Record<CsvColumn, string | number | undefined> = {
+      timestamp: new Date(entry.timestamp).toISOString(),
+      symbol: entry.symbol,
+      address: entry.address,
+      chain: entry.chainId,
+      side: entry.type,
+      amount: entry.amount,
+      price: entry.price,
+      value: entry.value,
+      market_price: entry.marketPrice,
+      price_impact: entry.priceImpact,
+      swap_fee: entry.fees.swap,
+      network_fee: entry.fees.network,
+      tax: entry.fees.tax,
+      total_fee: entry.fees.total,
+      pnl: entry.pnl,
+      pnl_percent: entry.pnlPercent,
+      trigger: entry.trigger,
+      order_id: entry.orderId,
+      id: entry.id,
+    };
+    return CSV_COLUMNS.map((column) =>
+      escapeCsv(values[column]?.toString() ?? "")
+    ).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+// Splits CSV text into rows of fields, honoring quoted fields with embedded
+// commas, quotes and newlines.
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+function parseNumber(
+  value: unknown,
+  name: string,
+  errors: string[],
+  optional = false
+): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    if (!optional) errors.push(`missing ${name}`);
+    return undefined;
+  }
+  const num = typeof value === "number" ? value : Number(value);
+  if (!isFinite(num)) {
+    errors.push(`invalid ${name} "${value}"`);
+    return undefined;
+  }
+  return num;
+}
+
+function parseTimestamp(value: unknown, errors: string[]): number {
+  const timestamp =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && /^\d+$/.test(value)
+      ? Number(value)
+      : Date.parse(String(value ?? ""));
+  if (!isFinite(timestamp)) errors.push(`invalid timestamp "${value}"`);
+  return timestamp;
+}
+
+type RawEntry = Partial<Record<CsvColumn, unknown>>;
+
+// Validates one raw row's fields. Ledger-level checks (balance, holdings)
+// happen during replay.
+function toLedgerEntry(
+  raw: RawEntry,
+  row: number
+): LedgerEntry | LedgerRowError {
+  const errors: string[] = [];
+  const side = raw.side;
+  if (side !== "buy" && side !== "sell") {
+    errors.push(`invalid side "${side ?? ""}"`);
+  }
+  const address = String(raw.address ?? "").trim();
+  if (!address) errors.push("missing address");
+  const trigger = raw.trigger ? String(raw.trigger) : undefined;
+  if (trigger && !TRIGGER_REASONS.includes(trigger as TriggerReason)) {
+    errors.push(`invalid trigger "${trigger}"`);
+  }
+
+  const timestamp = parseTimestamp(raw.timestamp, errors);
+  const amount = parseNumber(raw.amount, "amount", errors);
+  const price = parseNumber(raw.price, "price", errors);
+  const value = parseNumber(raw.value, "value", errors, true);
+  const swap = parseNumber(raw.swap_fee, "swap fee", errors, true) ?? 0;
+  const network =
+    parseNumber(raw.network_fee, "network fee", errors, true) ?? 0;
+  const tax = parseNumber(raw.tax, "tax", errors, true) ?? 0;
+  const total =
+    parseNumber(raw.total_fee, "total fee", errors, true) ??
+    swap + network + tax;
+
+  if (amount !== undefined && !(amount > 0)) errors.push("amount must be > 0");
+  if (price !== undefined && !(price > 0)) errors.push("price must be > 0");
+  if ([swap, network, tax, total].some((fee) => fee < 0)) {
+    errors.push("fees can't be negative");
+  }
+
+  // A missing side, amount or price has already been reported in errors.
+  if (
+    errors.length > 0 ||
+    (side !== "buy" && side !== "sell") ||
+    amount === undefined ||
+    price === undefined
+  ) {
+    return { row, message: errors.join(", ") };
+  }
+
+  return {
+    id: String(raw.id || Math.random().toString(36).substring(7)),
+    address: address.toLowerCase(),
+    symbol: String(raw.symbol ?? "").trim() || address.slice(0, 6),
+    type: side,
+    amount,
+    price,
+    value: value ?? amount * price,
+    timestamp,
+    marketPrice:
+      parseNumber(raw.market_price, "market price", [], true) ?? price,
+    priceImpact: parseNumber(raw.price_impact, "price impact", [], true) ?? 0,
+    fees: { swap, network, tax, total },
+    ...(raw.chain ? { chainId: String(raw.chain).trim().toLowerCase() } : {}),
+    ...(trigger ? { trigger: trigger as TriggerReason } : {}),
+    ...(raw.order_id ? { orderId: String(raw.order_id) } : {}),
+  };
+}
+
+function isRowError(
+  entry: LedgerEntry | LedgerRowError
+): entry is LedgerRowError {
+  return "message" in entry;
+}
+
+// Null for JSON entries that aren't trade objects at all.
+function fromTrade(value: unknown): RawEntry | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const trade = value as Partial<LedgerEntry>;
+  return {
+    timestamp: trade.timestamp,
+    symbol: trade.symbol,
+    address: trade.address,
+    chain: trade.chainId,
+    side: trade.type,
+    amount: trade.amount,
+    price: trade.price,
+    value: trade.value,
+    market_price: trade.marketPrice,
+    price_impact: trade.priceImpact,
+    swap_fee: trade.fees?.swap,
+    network_fee: trade.fees?.network,
+    tax: trade.fees?.tax,
+    total_fee: trade.fees?.total,
+    trigger: trade.trigger,
+    order_id: trade.orderId,
+    id: trade.id,
+  };
+}
+
+// Rebuilds balance and positions by applying each trade in time order, the
+// same way a live fill would have changed them. Fills aren't re-quoted; the
+// recorded prices and fees are taken as-is.
+export function replayLedger(
+  entries: LedgerEntry[],
+  initialBalance: number,
+  costBasisMethod: CostBasisMethod
+): LedgerImportResult {
+  const errors: LedgerRowError[] = [];
+  const ordered = entries
+    .map((entry, i) => ({ entry, row: i + 1 }))
+    .sort((a, b) => a.entry.timestamp - b.entry.timestamp);
+
+  let balance = initialBalance;
+  const tokens = new Map<string, TokenPosition>();
+  const trades: Trade[] = [];
+  const seenIds = new Set<string>();
+
+  for (const { entry, row } of ordered) {
+    const { address, ...trade } = entry;
+    // Ids come from the file; keep them unique so per-trade P/L lines up.
+    if (seenIds.has(trade.id))
+      trade.id = Math.random().toString(36).substring(7);
+    seenIds.add(trade.id);
+    const token = tokens.get(address) ?? {
+      address,
+      chainId: trade.chainId ?? DEFAULT_CHAIN,
+      symbol: trade.symbol,
+      holdings: 0,
+      trades: [],
+      pnl: 0,
+      fees: 0,
+      averageCost: 0,
+      currentPrice: trade.marketPrice,
+    };
+
+    if (trade.type === "buy") {
+      const cost = trade.value + trade.fees.total;
+      if (cost > balance + 1e-6) {
+        errors.push({ row, message: "insufficient balance for buy" });
+        continue;
+      }
+      balance -= cost;
+    } else {
+      if (trade.amount > token.holdings + 1e-9) {
+        errors.push({ row, message: "sells more tokens than held" });
+        continue;
+      }
+      balance += trade.value - trade.fees.total;
+    }
+
+    const updatedTrades = [...token.trades, trade];
+    const pnlData = calculatePositionPnL(
+      updatedTrades,
+      trade.marketPrice,
+      costBasisMethod
+    );
+    if (trade.type === "sell") {
+      trade.pnl = pnlData.realizedByTrade[trade.id];
+      trade.pnlPercent = (trade.pnl / trade.value) * 100;
+    }
+
+    tokens.set(address, {
+      ...token,
+      holdings: pnlData.totalTokens < 1e-9 ? 0 : pnlData.totalTokens,
+      trades: updatedTrades,
+      pnl: pnlData.totalPnL,
+      fees: pnlData.totalFees,
+      averageCost: pnlData.averageCost,
+      currentPrice: trade.marketPrice,
+    });
+    trades.unshift(trade);
+  }
+
+  if (errors.length > 0) {
+    return { errors: errors.sort((a, b) => a.row - b.row) };
+  }
+  return {
+    initialBalance,
+    portfolio: {
+      balance,
+      tokens: Array.from(tokens.values()),
+      trades,
+      orders: [],
+      costBasisMethod,
+    },
+  };
+}
+
+// Parses an exported CSV or JSON ledger and replays it. JSON exports carry
+// their starting balance; CSV imports start from fallbackBalance.
+export function importLedger(
+  text: string,
+  filename: string,
+  fallbackBalance: number,
+  costBasisMethod: CostBasisMethod
+): LedgerImportResult {
+  let raws: Array<RawEntry | null>;
+  let initialBalance = fallbackBalance;
+
+  if (filename.toLowerCase().endsWith(".json")) {
+    let file: Partial<LedgerFile>;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      return { errors: [{ row: 0, message: "file is not valid JSON" }] };
+    }
+    if (!file || typeof file !== "object" || !Array.isArray(file.trades)) {
+      return { errors: [{ row: 0, message: "missing trades array" }] };
+    }
+    if (file.version !== undefined && file.version > LEDGER_VERSION) {
+      return {
+        errors: [{ row: 0, message: `unsupported version ${file.version}` }],
+      };
+    }
+    if (typeof file.initialBalance === "number" && file.initialBalance > 0) {
+      initialBalance = file.initialBalance;
+    }
+    raws = file.trades.map(fromTrade);
+  } else {
+    const [header, ...rows] = parseCsvRows(text);
+    const columns = (header ?? []).map((h) => h.trim().toLowerCase());
+    const missing = ["timestamp", "address", "side", "amount", "price"].filter(
+      (c) => !columns.includes(c)
+    );
+    if (missing.length > 0) {
+      return {
+        errors: [{ row: 0, message: `missing columns: ${missing.join(", ")}` }],
+      };
+    }
+    raws = rows.map((fields) =>
+      Object.fromEntries(columns.map((c, i) => [c, fields[i]?.trim()]))
+    );
+  }
+
+  if (raws.length === 0) {
+    return { errors: [{ row: 0, message: "no trades found" }] };
+  }
+
+  const parsed = raws.map((raw, i) =>
+    raw
+      ? toLedgerEntry(raw, i + 1)
+      : { row: i + 1, message: "entry is not a trade object" }
+  );
+  const errors = parsed.filter(isRowError);
+  if (errors.length > 0) return { errors };
+
+  return replayLedger(parsed as LedgerEntry[], initialBalance, costBasisMethod);
+}
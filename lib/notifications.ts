@@ -0,0 +1,27 @@
+// lib/notifications.ts
+// Thin wrapper over the browser Notification API, which is missing during
+// server rendering and in some browsers.
+
+export type NotificationState = NotificationPermission | "unsupported";
+
+export function getNotificationState(): NotificationState {
+  if (typeof window === "undefined" || !("Notification" in window)) {
+    return "unsupported";
+  }
+  return Notification.permission;
+}
+
+export async function requestNotifications(): Promise<NotificationState> {
+  if (getNotificationState() === "unsupported") return "unsupported";
+  return Notification.requestPermission();
+}
+
+export function showNotification(title: string, body: string, tag?: string) {
+  if (getNotificationState() !== "granted") return;
+  try {
+    new Notification(title, { body, tag });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker.
+    console.error("Error showing notification:", error);
+  }
+}
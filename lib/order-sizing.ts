@@ -0,0 +1,145 @@
+// lib/order-sizing.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import { getBuyAmountForTokens, type FeeSettings } from "@/lib/fees";
+import {
+  getAvailableBalance,
+  getAvailableTokens,
+  type OrderRequest,
+  type Portfolio,
+} from "@/lib/portfolio";
+
+export type SizeUnit = "usd" | "tokens" | "percent";
+
+// How much to trade. Percentages are of available cash for buys and of
+// available (unreserved) tokens for sells, except that 100% sells the whole
+// holding, resting sells included.
+export interface OrderSize {
+  unit: SizeUnit;
+  value: number;
+}
+
+export interface OrderPresets {
+  buy: OrderSize[];
+  sell: OrderSize[];
+}
+
+export const DEFAULT_ORDER_PRESETS: OrderPresets = {
+  buy: [
+    { unit: "usd", value: 100 },
+    { unit: "usd", value: 250 },
+    { unit: "percent", value: 25 },
+  ],
+  sell: [
+    { unit: "percent", value: 25 },
+    { unit: "percent", value: 50 },
+    { unit: "percent", value: 100 },
+  ],
+};
+
+// Keeps float rounding in the fee split from pushing an all-in buy a hair
+// over the balance.
+const BALANCE_HEADROOM = 1e-9;
+
+export type SizedOrder = { order: OrderRequest } | { error: string };
+
+// Turns a size into a market order for executeTrade.
+export function sizeOrder(
+  portfolio: Portfolio,
+  pair: DexScreenerPair,
+  address: string,
+  type: OrderRequest["type"],
+  size: OrderSize,
+  feeSettings: FeeSettings
+): SizedOrder {
+  if (!(size.value > 0)) return { error: "Invalid order size" };
+  if (size.unit === "percent" && size.value > 100) {
+    return { error: "Percent can't exceed 100" };
+  }
+
+  if (type === "buy") {
+    switch (size.unit) {
+      case "usd":
+        return { order: { address, type, amount: size.value } };
+      case "tokens": {
+        const amount = getBuyAmountForTokens(pair, size.value, feeSettings);
+        if (amount === null) return { error: "Insufficient liquidity" };
+        return { order: { address, type, amount } };
+      }
+      case "percent": {
+        // A buy costs its amount plus the flat network fees.
+        const budget =
+          getAvailableBalance(portfolio) *
+          (size.value / 100) *
+          (1 - BALANCE_HEADROOM);
+        const amount =
+          budget - feeSettings.networkFee - feeSettings.priorityFee;
+        if (!(amount > 0)) return { error: "Insufficient balance" };
+        return { order: { address, type, amount } };
+      }
+    }
+  }
+
+  switch (size.unit) {
+    case "usd":
+      return { order: { address, type, amount: size.value } };
+    case "tokens":
+      return { order: { address, type, tokenAmount: size.value } };
+    case "percent": {
+      // 100% closes the position flat; executeTrade cancels the resting
+      // sells that reserved part of it.
+      if (size.value === 100) {
+        const holdings =
+          portfolio.tokens.find((t) => t.address === address)?.holdings ?? 0;
+        if (!(holdings > 0)) return { error: "Insufficient tokens" };
+        return {
+          order: { address, type, tokenAmount: holdings, closePosition: true },
+        };
+      }
+      const available = getAvailableTokens(portfolio, address);
+      if (!(available > 0)) return { error: "Insufficient tokens" };
+      return {
+        order: { address, type, tokenAmount: available * (size.value / 100) },
+      };
+    }
+  }
+}
+
+export function formatOrderSize(size: OrderSize): string {
+  switch (size.unit) {
+    case "usd":
+      return `$${size.value}`;
+    case "percent":
+      return `${size.value}%`;
+    case "tokens":
+      return `${size.value} tokens`;
+  }
+}
+
+// Accepts "$100", "25%" or a bare token quantity ("1000", "1000 tokens").
+export function parseOrderSize(text: string): OrderSize | null {
+  const trimmed = text.trim();
+  let unit: SizeUnit = "tokens";
+  let number = trimmed.replace(/\s*tokens?$/i, "");
+
+  if (trimmed.startsWith("$")) {
+    unit = "usd";
+    number = trimmed.slice(1);
+  } else if (trimmed.endsWith("%")) {
+    unit = "percent";
+    number = trimmed.slice(0, -1);
+  }
+
+  if (!/^\d*\.?\d+$/.test(number.trim())) return null;
+  const value = parseFloat(number);
+  if (!(value > 0) || (unit === "percent" && value > 100)) return null;
+  return { unit, value };
+}
+
+// A comma-separated preset list, e.g. "$100, $250, 25%".
+export function parseOrderPresets(text: string): OrderSize[] | null {
+  const sizes = text
+    .split(",")
+    .filter((part) => part.trim())
+    .map(parseOrderSize);
+  return sizes.every((size): size is OrderSize => size !== null) ? sizes : null;
+}
@@ -0,0 +1,334 @@
+// lib/orders.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import type { FeeSettings } from "@/lib/fees";
+import {
+  executeTrade,
+  getAvailableBalance,
+  getAvailableTokens,
+  type Portfolio,
+  type TradeResult,
+} from "@/lib/portfolio";
+import type {
+  BracketOrder,
+  LimitOrder,
+  Order,
+  TrailingStopOrder,
+  TriggerReason,
+} from "@/lib/types";
+
+export interface LimitOrderDraft {
+  address: string;
+  type: "buy" | "sell";
+  limitPrice: number;
+  size: number;
+}
+
+export interface TrailingStopDraft {
+  address: string;
+  trailMode: TrailingStopOrder["trailMode"];
+  trailDistance: number;
+  size: number;
+}
+
+export interface BracketDraft {
+  address: string;
+  stopPrice: number;
+  takeProfitPrice: number;
+  size: number;
+}
+
+export type OrderDraft =
+  | ({ kind: "limit" } & LimitOrderDraft)
+  | ({ kind: "trailing-stop" } & TrailingStopDraft)
+  | ({ kind: "bracket" } & BracketDraft);
+
+export type OrderBookResult = { portfolio: Portfolio } | { error: string };
+
+export interface OrderEvaluation {
+  // Set when the order should execute on this tick.
+  trigger: TriggerReason | null;
+  // The order with any per-tick state (trailing high-water mark) advanced.
+  order: Order;
+}
+
+function createOrderId(): string {
+  return Math.random().toString(36).substring(7);
+}
+
+// Buys hold back their spend plus the flat network fee so the fill can't be
+// starved by a market order placed while it rests.
+function getReservation(
+  draft: Pick<Order, "type" | "size">,
+  feeSettings: FeeSettings
+): number {
+  return draft.type === "buy"
+    ? draft.size + feeSettings.networkFee + feeSettings.priorityFee
+    : draft.size;
+}
+
+function validateReservation(
+  portfolio: Portfolio,
+  draft: Pick<Order, "address" | "type" | "size">,
+  reserved: number
+): string | null {
+  if (!(draft.size > 0)) return "Invalid order size";
+
+  const token = portfolio.tokens.find((t) => t.address === draft.address);
+  if (!token) return "Token not found";
+
+  if (draft.type === "buy" && reserved > getAvailableBalance(portfolio)) {
+    return "Insufficient balance";
+  }
+  if (
+    draft.type === "sell" &&
+    reserved > getAvailableTokens(portfolio, draft.address)
+  ) {
+    return "Insufficient tokens";
+  }
+  return null;
+}
+
+function addOrder(portfolio: Portfolio, order: Order): OrderBookResult {
+  const error = validateReservation(portfolio, order, order.reserved);
+  if (error) return { error };
+  return { portfolio: { ...portfolio, orders: [...portfolio.orders, order] } };
+}
+
+function getSymbol(portfolio: Portfolio, address: string): string {
+  return portfolio.tokens.find((t) => t.address === address)?.symbol ?? "";
+}
+
+function getTrailingStopPrice(
+  order: Pick<TrailingStopOrder, "trailMode" | "trailDistance">,
+  highWaterMark: number
+): number {
+  return order.trailMode === "percent"
+    ? highWaterMark * (1 - order.trailDistance / 100)
+    : highWaterMark - order.trailDistance;
+}
+
+export function placeLimitOrder(
+  portfolio: Portfolio,
+  draft: LimitOrderDraft,
+  feeSettings: FeeSettings
+): OrderBookResult {
+  if (!(draft.limitPrice > 0)) return { error: "Invalid limit price" };
+
+  const order: LimitOrder = {
+    kind: "limit",
+    id: createOrderId(),
+    address: draft.address,
+    symbol: getSymbol(portfolio, draft.address),
+    type: draft.type,
+    limitPrice: draft.limitPrice,
+    size: draft.size,
+    reserved: getReservation(draft, feeSettings),
+    createdAt: Date.now(),
+  };
+  return addOrder(portfolio, order);
+}
+
+export function placeTrailingStop(
+  portfolio: Portfolio,
+  draft: TrailingStopDraft,
+  currentPrice: number
+): OrderBookResult {
+  if (!(draft.trailDistance > 0)) return { error: "Invalid trail distance" };
+  if (draft.trailMode === "percent" && draft.trailDistance >= 100) {
+    return { error: "Invalid trail distance" };
+  }
+  if (!(currentPrice > 0)) return { error: "Invalid price data" };
+
+  const stopPrice = getTrailingStopPrice(draft, currentPrice);
+  if (!(stopPrice > 0)) return { error: "Trail distance exceeds price" };
+
+  const order: TrailingStopOrder = {
+    kind: "trailing-stop",
+    id: createOrderId(),
+    address: draft.address,
+    symbol: getSymbol(portfolio, draft.address),
+    type: "sell",
+    trailMode: draft.trailMode,
+    trailDistance: draft.trailDistance,
+    highWaterMark: currentPrice,
+    stopPrice,
+    size: draft.size,
+    reserved: draft.size,
+    createdAt: Date.now(),
+  };
+  return addOrder(portfolio, order);
+}
+
+export function placeBracket(
+  portfolio: Portfolio,
+  draft: BracketDraft,
+  currentPrice: number
+): OrderBookResult {
+  if (!(draft.stopPrice > 0) || !(draft.takeProfitPrice > 0)) {
+    return { error: "Invalid bracket prices" };
+  }
+  if (
+    currentPrice > 0 &&
+    !(draft.stopPrice < currentPrice && currentPrice < draft.takeProfitPrice)
+  ) {
+    return { error: "Bracket must straddle the current price" };
+  }
+
+  const order: BracketOrder = {
+    kind: "bracket",
+    id: createOrderId(),
+    address: draft.address,
+    symbol: getSymbol(portfolio, draft.address),
+    type: "sell",
+    stopPrice: draft.stopPrice,
+    takeProfitPrice: draft.takeProfitPrice,
+    size: draft.size,
+    reserved: draft.size,
+    createdAt: Date.now(),
+  };
+  return addOrder(portfolio, order);
+}
+
+export function submitOrder(
+  portfolio: Portfolio,
+  draft: OrderDraft,
+  currentPrice: number,
+  feeSettings: FeeSettings
+): OrderBookResult {
+  switch (draft.kind) {
+    case "limit":
+      return placeLimitOrder(portfolio, draft, feeSettings);
+    case "trailing-stop":
+      return placeTrailingStop(portfolio, draft, currentPrice);
+    case "bracket":
+      return placeBracket(portfolio, draft, currentPrice);
+  }
+}
+
+export function amendLimitOrder(
+  portfolio: Portfolio,
+  orderId: string,
+  changes: Pick<LimitOrderDraft, "limitPrice" | "size">,
+  feeSettings: FeeSettings
+): OrderBookResult {
+  const order = portfolio.orders.find((o) => o.id === orderId);
+  if (!order || order.kind !== "limit") return { error: "Order not found" };
+  if (!(changes.limitPrice > 0)) return { error: "Invalid limit price" };
+
+  // Validate against the book without this order's own reservation.
+  const draft = { ...order, ...changes };
+  const reserved = getReservation(draft, feeSettings);
+  const error = validateReservation(
+    cancelOrder(portfolio, orderId),
+    draft,
+    reserved
+  );
+  if (error) return { error };
+
+  return {
+    portfolio: {
+      ...portfolio,
+      orders: portfolio.orders.map((o) =>
+        o.id === orderId ? { ...draft, reserved } : o
+      ),
+    },
+  };
+}
+
+export function cancelOrder(portfolio: Portfolio, orderId: string): Portfolio {
+  return {
+    ...portfolio,
+    orders: portfolio.orders.filter((o) => o.id !== orderId),
+  };
+}
+
+export function cancelOrdersForToken(
+  portfolio: Portfolio,
+  address: string
+): Portfolio {
+  return {
+    ...portfolio,
+    orders: portfolio.orders.filter((o) => o.address !== address),
+  };
+}
+
+export function evaluateOrder(order: Order, price: number): OrderEvaluation {
+  if (!(price > 0)) return { trigger: null, order };
+
+  switch (order.kind) {
+    case "limit": {
+      const hit =
+        order.type === "buy"
+          ? price <= order.limitPrice
+          : price >= order.limitPrice;
+      return { trigger: hit ? "limit" : null, order };
+    }
+    case "trailing-stop": {
+      if (price > order.highWaterMark) {
+        // The stop only ever ratchets up; a new high can't trigger it.
+        return {
+          trigger: null,
+          order: {
+            ...order,
+            highWaterMark: price,
+            stopPrice: getTrailingStopPrice(order, price),
+          },
+        };
+      }
+      return {
+        trigger: price <= order.stopPrice ? "trailing-stop" : null,
+        order,
+      };
+    }
+    case "bracket": {
+      if (price <= order.stopPrice) return { trigger: "stop-loss", order };
+      if (price >= order.takeProfitPrice) {
+        return { trigger: "take-profit", order };
+      }
+      return { trigger: null, order };
+    }
+  }
+}
+
+export function replaceOrders(
+  portfolio: Portfolio,
+  updated: Order[]
+): Portfolio {
+  const byId = new Map(updated.map((o) => [o.id, o]));
+  return {
+    ...portfolio,
+    orders: portfolio.orders.map((o) => byId.get(o.id) ?? o),
+  };
+}
+
+// Releases the order's reservation and executes it as a market order. The
+// trigger price only gates when the order fires; the fill still pays pool
+// impact like any other trade.
+export function fillOrder(
+  portfolio: Portfolio,
+  pair: DexScreenerPair,
+  orderId: string,
+  trigger: TriggerReason,
+  feeSettings: FeeSettings,
+  timestamp?: number
+): TradeResult {
+  const order = portfolio.orders.find((o) => o.id === orderId);
+  if (!order) return { error: "Order not found" };
+
+  const sizing =
+    order.type === "buy" ? { amount: order.size } : { tokenAmount: order.size };
+
+  return executeTrade(
+    cancelOrder(portfolio, orderId),
+    pair,
+    {
+      address: order.address,
+      type: order.type,
+      ...sizing,
+      trigger,
+      orderId: order.id,
+      timestamp,
+    },
+    feeSettings
+  );
+}
@@ -0,0 +1,309 @@
+// lib/portfolio.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import {
+  quoteBuyWithFees,
+  quoteSellTokensWithFees,
+  quoteSellWithFees,
+  type FeeSettings,
+} from "@/lib/fees";
+import {
+  calculateLotPnL,
+  type CostBasisMethod,
+  type LotPnL,
+} from "@/lib/cost-basis";
+import type { Order, Trade, TokenPosition, TriggerReason } from "@/lib/types";
+
+export interface Portfolio {
+  balance: number;
+  tokens: TokenPosition[];
+  trades: Trade[];
+  orders: Order[];
+  costBasisMethod: CostBasisMethod;
+}
+
+export interface OrderRequest {
+  address: string;
+  type: "buy" | "sell";
+  // USD to spend on a buy, or gross USD proceeds to receive on a sell.
+  amount?: number;
+  // Exact token quantity to sell; takes precedence over amount.
+  tokenAmount?: number;
+  trigger?: TriggerReason;
+  orderId?: string;
+  // Sell out of the whole holding, releasing resting sells on the token.
+  closePosition?: boolean;
+  // Market time of the fill; defaults to now.
+  timestamp?: number;
+}
+
+export type TradeResult =
+  | { portfolio: Portfolio; trade: Trade }
+  | { error: string };
+
+export function calculatePositionPnL(
+  trades: Trade[],
+  currentPrice: number,
+  method?: CostBasisMethod
+): LotPnL {
+  return calculateLotPnL(trades, currentPrice, method);
+}
+
+export function getReservedCash(orders: Order[]): number {
+  return orders
+    .filter((o) => o.type === "buy")
+    .reduce((sum, o) => sum + o.reserved, 0);
+}
+
+export function getReservedTokens(orders: Order[], address: string): number {
+  return orders
+    .filter((o) => o.type === "sell" && o.address === address)
+    .reduce((sum, o) => sum + o.reserved, 0);
+}
+
+export function getAvailableBalance(portfolio: Portfolio): number {
+  return portfolio.balance - getReservedCash(portfolio.orders);
+}
+
+export function getAvailableTokens(
+  portfolio: Portfolio,
+  address: string
+): number {
+  const token = portfolio.tokens.find((t) => t.address === address);
+  if (!token) return 0;
+  return token.holdings - getReservedTokens(portfolio.orders, address);
+}
+
+function isExitTrigger(trigger?: TriggerReason): boolean {
+  return trigger === "stop-loss" || trigger === "take-profit";
+}
+
+function createTradeId(): string {
+  return Math.random().toString(36).substring(7);
+}
+
+// Selling the full position can leave float dust behind; treat anything this
+// close to zero as closed.
+const DUST_THRESHOLD = 1e-9;
+
+export function executeTrade(
+  portfolio: Portfolio,
+  pair: DexScreenerPair,
+  order: OrderRequest,
+  feeSettings: FeeSettings
+): TradeResult {
+  const currentPrice = parseFloat(pair.priceUsd);
+  if (isNaN(currentPrice) || currentPrice <= 0) {
+    return { error: "Invalid price data" };
+  }
+
+  const token = portfolio.tokens.find((t) => t.address === order.address);
+  if (!token) return { error: "Token not found" };
+
+  // Exits and closing sells take the whole position, so they override
+  // resting limit sells; those are cancelled once the position is flat.
+  const sellableTokens =
+    isExitTrigger(order.trigger) || order.closePosition
+      ? token.holdings
+      : getAvailableTokens(portfolio, order.address);
+
+  let quote;
+  if (order.type === "buy") {
+    quote = quoteBuyWithFees(pair, order.amount ?? 0, feeSettings);
+  } else if (order.tokenAmount !== undefined) {
+    if (order.tokenAmount > sellableTokens) {
+      return { error: "Insufficient tokens" };
+    }
+    quote = quoteSellTokensWithFees(pair, order.tokenAmount, feeSettings);
+  } else {
+    quote = quoteSellWithFees(pair, order.amount ?? 0, feeSettings);
+  }
+  if (!quote) return { error: "Insufficient liquidity" };
+
+  const { fill, fees } = quote;
+  const cashDelta =
+    order.type === "buy" ? -(fill.value + fees.total) : fill.value - fees.total;
+
+  if (order.type === "buy" && -cashDelta > getAvailableBalance(portfolio)) {
+    return { error: "Insufficient balance" };
+  }
+  if (order.type === "sell" && fill.tokenAmount > sellableTokens) {
+    return { error: "Insufficient tokens" };
+  }
+
+  const trade: Trade = {
+    id: createTradeId(),
+    symbol: token.symbol,
+    type: order.type,
+    amount: fill.tokenAmount,
+    price: fill.price,
+    value: fill.value,
+    timestamp: order.timestamp ?? Date.now(),
+    marketPrice: fill.marketPrice,
+    priceImpact: fill.priceImpact,
+    fees,
+    chainId: pair.chainId,
+  };
+  if (order.trigger) trade.trigger = order.trigger;
+  if (order.orderId) trade.orderId = order.orderId;
+
+  const updatedTrades = [...token.trades, trade];
+  const pnlData = calculatePositionPnL(
+    updatedTrades,
+    currentPrice,
+    portfolio.costBasisMethod
+  );
+
+  if (order.type === "sell") {
+    trade.pnl = pnlData.realizedByTrade[trade.id];
+    trade.pnlPercent = (trade.pnl / fill.value) * 100;
+  }
+
+  const holdings =
+    pnlData.totalTokens < DUST_THRESHOLD ? 0 : pnlData.totalTokens;
+
+  return {
+    trade,
+    portfolio: {
+      ...portfolio,
+      balance: portfolio.balance + cashDelta,
+      trades: [trade, ...portfolio.trades],
+      orders:
+        holdings === 0
+          ? portfolio.orders.filter(
+              (o) => !(o.type === "sell" && o.address === order.address)
+            )
+          : portfolio.orders,
+      tokens: portfolio.tokens.map((t) =>
+        t.address === order.address
+          ? {
+              ...t,
+              holdings,
+              trades: updatedTrades,
+              pnl: pnlData.totalPnL,
+              fees: pnlData.totalFees,
+              averageCost: pnlData.averageCost,
+              currentPrice,
+              // Exit levels only make sense while there is something to exit.
+              ...(holdings === 0
+                ? { stopLoss: undefined, takeProfit: undefined }
+                : {}),
+            }
+          : t
+      ),
+    },
+  };
+}
+
+// A position as saved: without the fields markToMarket rewrites on every
+// tick.
+export type PositionRecord = Omit<TokenPosition, "currentPrice" | "pnl">;
+
+export function toPositionRecord(token: TokenPosition): PositionRecord {
+  const record: Partial<TokenPosition> = { ...token };
+  delete record.currentPrice;
+  delete record.pnl;
+  return record as PositionRecord;
+}
+
+// Rebuilds a saved position, marked at its last fill until the next tick.
+export function fromPositionRecord(
+  record: PositionRecord,
+  method?: CostBasisMethod
+): TokenPosition {
+  const currentPrice = record.trades[record.trades.length - 1]?.price ?? 0;
+  return {
+    ...record,
+    currentPrice,
+    pnl: calculatePositionPnL(record.trades, currentPrice, method).totalPnL,
+  };
+}
+
+// Whether two lists hold the same positions field for field.
+export function samePositionRecords(
+  a: PositionRecord[],
+  b: PositionRecord[]
+): boolean {
+  return (
+    a.length === b.length &&
+    a.every((record, i) => {
+      const other = b[i];
+      const keys = new Set([...Object.keys(record), ...Object.keys(other)]);
+      return Array.from(keys).every(
+        (key) =>
+          record[key as keyof PositionRecord] ===
+          other[key as keyof PositionRecord]
+      );
+    })
+  );
+}
+
+export function markToMarket(
+  portfolio: Portfolio,
+  address: string,
+  price: number
+): Portfolio {
+  const normalizedAddress = address.toLowerCase();
+  const token = portfolio.tokens.find(
+    (t) => t.address.toLowerCase() === normalizedAddress
+  );
+  if (!token || token.currentPrice === price) {
+    return portfolio;
+  }
+
+  return {
+    ...portfolio,
+    tokens: portfolio.tokens.map((t) => {
+      if (t.address.toLowerCase() === normalizedAddress) {
+        const pnlData = calculatePositionPnL(
+          t.trades,
+          price,
+          portfolio.costBasisMethod
+        );
+        return { ...t, currentPrice: price, pnl: pnlData.totalPnL };
+      }
+      return t;
+    }),
+  };
+}
+
+// Re-scores every position and every sell's realized P/L under a different
+// cost-basis method. Balances don't change; only how P/L is attributed.
+export function applyCostBasisMethod(
+  portfolio: Portfolio,
+  method: CostBasisMethod
+): Portfolio {
+  const realizedByTrade: Record<string, number> = {};
+
+  const tokens = portfolio.tokens.map((token) => {
+    const pnlData = calculatePositionPnL(
+      token.trades,
+      token.currentPrice,
+      method
+    );
+    Object.assign(realizedByTrade, pnlData.realizedByTrade);
+    return {
+      ...token,
+      trades: token.trades.map((trade) => rescoreTrade(trade, realizedByTrade)),
+      pnl: pnlData.totalPnL,
+      averageCost: pnlData.averageCost,
+    };
+  });
+
+  return {
+    ...portfolio,
+    costBasisMethod: method,
+    tokens,
+    trades: portfolio.trades.map((trade) =>
+      rescoreTrade(trade, realizedByTrade)
+    ),
+  };
+}
+
+function rescoreTrade(
+  trade: Trade,
+  realizedByTrade: Record<string, number>
+): Trade {
+  const pnl = realizedByTrade[trade.id];
+  if (trade.type !== "sell" || pnl === undefined) return trade;
+  return { ...trade, pnl, pnlPercent: (pnl / trade.value) * 100 };
+}
@@ -0,0 +1,63 @@
+// lib/recording.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+
+export const RECORDING_VERSION = 1;
+
+// The first line of every recording describes the session it came from.
+export interface RecordingHeader {
+  type: "session";
+  version: number;
+  startedAt: number;
+  pollInterval: number;
+  addresses: string[];
+  source: string;
+}
+
+export interface RecordedTick {
+  type: "tick";
+  timestamp: number;
+  address: string;
+  pair: DexScreenerPair;
+}
+
+export type RecordingEntry = RecordingHeader | RecordedTick;
+
+export interface Recording {
+  header: RecordingHeader;
+  ticks: RecordedTick[];
+}
+
+export function toNdjsonLine(entry: RecordingEntry): string {
+  return JSON.stringify(entry) + "\n";
+}
+
+export function parseRecording(text: string): Recording {
+  let header: RecordingHeader | null = null;
+  const ticks: RecordedTick[] = [];
+
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+
+    let entry: RecordingEntry;
+    try {
+      entry = JSON.parse(lines[i]);
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1}`);
+    }
+
+    if (entry.type === "session") {
+      if (entry.version > RECORDING_VERSION) {
+        throw new Error(`Unsupported recording version ${entry.version}`);
+      }
+      header = header ?? entry;
+    } else if (entry.type === "tick" && entry.pair) {
+      ticks.push(entry);
+    }
+  }
+
+  if (!header) throw new Error("Recording is missing its session header");
+
+  ticks.sort((a, b) => a.timestamp - b.timestamp);
+  return { header, ticks };
+}
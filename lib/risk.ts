@@ -0,0 +1,159 @@
+// lib/risk.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export interface RiskFactor {
+  id: "liquidity" | "age" | "imbalance" | "volume";
+  points: number;
+  reason: string;
+}
+
+export interface RiskAssessment {
+  // 0 (no red flags) to 100.
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+}
+
+export interface RiskSettings {
+  // Reject buys on tokens scoring at or above the threshold. Sells are never
+  // blocked, so a position can always be exited.
+  blockTrades: boolean;
+  threshold: number;
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  blockTrades: false,
+  threshold: 70,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+// Imbalance is only scored once the hour has enough trades to mean anything.
+const MIN_IMBALANCE_TXNS = 10;
+
+function liquidityFactor(pair: DexScreenerPair): RiskFactor | null {
+  const liquidity = pair.liquidity?.usd ?? 0;
+  const fdv = pair.fdv || pair.marketCap || 0;
+
+  if (liquidity < 10_000) {
+    return {
+      id: "liquidity",
+      points: 35,
+      reason: `Only $${Math.round(liquidity).toLocaleString()} of liquidity`,
+    };
+  }
+  if (fdv > 0) {
+    const ratio = (liquidity / fdv) * 100;
+    if (ratio < 1) {
+      return {
+        id: "liquidity",
+        points: 30,
+        reason: `Liquidity is ${ratio.toFixed(2)}% of FDV`,
+      };
+    }
+    if (ratio < 5) {
+      return {
+        id: "liquidity",
+        points: 15,
+        reason: `Liquidity is ${ratio.toFixed(1)}% of FDV`,
+      };
+    }
+  }
+  return null;
+}
+
+function ageFactor(pair: DexScreenerPair, now: number): RiskFactor | null {
+  if (!pair.pairCreatedAt) return null;
+  const hours = Math.max(0, (now - pair.pairCreatedAt) / HOUR_MS);
+  const points = hours < 24 ? 25 : hours < 72 ? 15 : hours < 168 ? 5 : 0;
+  if (points === 0) return null;
+  return {
+    id: "age",
+    points,
+    reason: `Pair is ${Math.floor(hours)}h old`,
+  };
+}
+
+function imbalanceFactor(pair: DexScreenerPair): RiskFactor | null {
+  const buys = pair.txns?.h1?.buys ?? 0;
+  const sells = pair.txns?.h1?.sells ?? 0;
+  if (buys + sells < MIN_IMBALANCE_TXNS) return null;
+
+  if (sells >= buys * 2) {
+    return {
+      id: "imbalance",
+      points: sells >= buys * 4 ? 20 : 10,
+      reason: `${sells} sells vs ${buys} buys in the last hour`,
+    };
+  }
+  if (buys >= sells * 4) {
+    // One-sided buying is typical of a pump that hasn't unwound yet.
+    return {
+      id: "imbalance",
+      points: 10,
+      reason: `${buys} buys vs ${sells} sells in the last hour`,
+    };
+  }
+  return null;
+}
+
+function volumeFactor(pair: DexScreenerPair): RiskFactor | null {
+  const liquidity = pair.liquidity?.usd ?? 0;
+  if (!(liquidity > 0)) return null;
+
+  const hourly = (pair.volume?.h1 ?? 0) / liquidity;
+  const daily = (pair.volume?.h24 ?? 0) / liquidity;
+  if (hourly >= 1) {
+    return {
+      id: "volume",
+      points: 20,
+      reason: `1h volume is ${hourly.toFixed(1)}x liquidity`,
+    };
+  }
+  if (daily >= 10) {
+    return {
+      id: "volume",
+      points: 10,
+      reason: `24h volume is ${daily.toFixed(0)}x liquidity`,
+    };
+  }
+  return null;
+}
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= 60) return "high";
+  if (score >= 30) return "medium";
+  return "low";
+}
+
+export function assessRisk(
+  pair: DexScreenerPair,
+  now: number = Date.now()
+): RiskAssessment {
+  const factors = [
+    liquidityFactor(pair),
+    ageFactor(pair, now),
+    imbalanceFactor(pair),
+    volumeFactor(pair),
+  ].filter((factor): factor is RiskFactor => factor !== null);
+
+  const score = Math.min(
+    100,
+    factors.reduce((total, f) => total + f.points, 0)
+  );
+  return { score, level: getRiskLevel(score), factors };
+}
+
+// The reason a buy on this pair is refused under the settings, if it is.
+export function getRiskRejection(
+  pair: DexScreenerPair,
+  settings: RiskSettings,
+  now?: number
+): string | null {
+  if (!settings.blockTrades) return null;
+  const { score } = assessRisk(pair, now);
+  return score >= settings.threshold
+    ? `Risk score ${score} is at or above your limit of ${settings.threshold}`
+    : null;
+}
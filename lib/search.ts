@@ -0,0 +1,123 @@
+// lib/search.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import type { ChainId } from "@/lib/chains";
+import type { RecordedTick } from "@/lib/recording";
+
+export interface SearchFixtureToken {
+  chainId: ChainId;
+  address: string;
+  symbol: string;
+  name: string;
+}
+
+export const SEARCH_MIN_LENGTH = 2;
+export const SEARCH_RESULT_LIMIT = 20;
+
+// Stand-in for the search endpoint when there's no network: well-known tokens
+// the synthetic source can serve pairs for.
+export const SEARCH_FIXTURE: SearchFixtureToken[] = [
+  {
+    chainId: "solana",
+    address: "JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN",
+    symbol: "JUP",
+    name: "Jupiter",
+  },
+  {
+    chainId: "solana",
+    address: "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263",
+    symbol: "Bonk",
+    name: "Bonk",
+  },
+  {
+    chainId: "solana",
+    address: "EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm",
+    symbol: "WIF",
+    name: "dogwifhat",
+  },
+  {
+    chainId: "solana",
+    address: "4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R",
+    symbol: "RAY",
+    name: "Raydium",
+  },
+  {
+    chainId: "ethereum",
+    address: "0x6982508145454ce325ddbe47a25d4ec3d2311933",
+    symbol: "PEPE",
+    name: "Pepe",
+  },
+  {
+    chainId: "ethereum",
+    address: "0x95ad61b0a150d79219dcf64e1e6cc01f0b64c4ce",
+    symbol: "SHIB",
+    name: "Shiba Inu",
+  },
+  {
+    chainId: "ethereum",
+    address: "0x1f9840a85d5af5b3f1779f9dcbdf3da4ab37f1f3",
+    symbol: "UNI",
+    name: "Uniswap",
+  },
+  {
+    chainId: "base",
+    address: "0x532f27101965dd16442e59d40670faf5ebb142e4",
+    symbol: "BRETT",
+    name: "Brett",
+  },
+];
+
+// Case-insensitive match on symbol or name prefix, or the full address.
+export function matchesSearch(
+  token: { address: string; symbol: string; name: string },
+  query: string
+): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return false;
+  return (
+    token.symbol.toLowerCase().startsWith(q) ||
+    token.name
+      .toLowerCase()
+      .split(/\s+/)
+      .some((word) => word.startsWith(q)) ||
+    token.address.toLowerCase() === q
+  );
+}
+
+// Search over a recording, for the sources that play one back: each
+// matching token's latest snapshot at or before `time`, or its first one if
+// it hasn't been recorded yet by then.
+export function searchRecording(
+  ticks: RecordedTick[],
+  query: string,
+  time: number
+): DexScreenerPair[] {
+  const matches = new Map<string, DexScreenerPair>();
+  for (const tick of ticks) {
+    if (!matchesSearch(tick.pair.baseToken, query)) continue;
+    const address = tick.address.toLowerCase();
+    if (tick.timestamp > time && matches.has(address)) continue;
+    matches.set(address, tick.pair);
+  }
+  return Array.from(matches.values());
+}
+
+// One result per token (its most liquid pair), most liquid tokens first.
+export function rankSearchResults(
+  pairs: DexScreenerPair[],
+  limit: number = SEARCH_RESULT_LIMIT
+): DexScreenerPair[] {
+  const byToken = new Map<string, DexScreenerPair>();
+  for (const pair of pairs) {
+    const key = `${pair.chainId}:${pair.baseToken.address.toLowerCase()}`;
+    const current = byToken.get(key);
+    if (
+      !current ||
+      (pair.liquidity?.usd || 0) > (current.liquidity?.usd || 0)
+    ) {
+      byToken.set(key, pair);
+    }
+  }
+  return Array.from(byToken.values())
+    .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))
+    .slice(0, limit);
+}
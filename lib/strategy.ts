@@ -0,0 +1,181 @@
+// lib/strategy.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import {
+  getAvailableBalance,
+  getAvailableTokens,
+  type OrderRequest,
+  type Portfolio,
+} from "@/lib/portfolio";
+import type { TokenPosition } from "@/lib/types";
+
+export interface StrategyContext {
+  address: string;
+  pair: DexScreenerPair;
+  price: number;
+  // Market time of the tick.
+  timestamp: number;
+  position: TokenPosition;
+  // Cash not held back by resting orders.
+  cash: number;
+  // Tokens not held back by resting sell orders.
+  availableTokens: number;
+}
+
+// What a strategy wants to do on a tick. Buys are sized in USD; sells take
+// either a token quantity or USD proceeds, like a manual trade.
+export type OrderIntent =
+  | { type: "buy"; amount: number; reason?: string }
+  | { type: "sell"; tokenAmount: number; reason?: string }
+  | { type: "sell"; amount: number; reason?: string };
+
+export interface Strategy<State = unknown> {
+  id: string;
+  name: string;
+  description: string;
+  // Fresh per-run state, created when the strategy is started on a token.
+  init(): State;
+  onTick(
+    context: StrategyContext,
+    state: State
+  ): OrderIntent | OrderIntent[] | null | void;
+}
+
+export interface StrategyRun {
+  address: string;
+  strategy: Strategy;
+  state: unknown;
+  startedAt: number;
+}
+
+export type StrategyAction = "start" | "stop" | "buy" | "sell" | "error";
+
+export interface StrategyDecision {
+  id: string;
+  timestamp: number;
+  address: string;
+  symbol: string;
+  strategy: string;
+  action: StrategyAction;
+  price: number;
+  note: string;
+  // Set on buy/sell decisions once execution has run.
+  status?: "filled" | "rejected";
+}
+
+// Executes an order and returns the rejection reason, if any.
+export type OrderExecutor = (order: OrderRequest) => string | null;
+
+function createDecisionId(): string {
+  return Math.random().toString(36).substring(7);
+}
+
+export function startStrategy(
+  strategy: Strategy,
+  address: string,
+  timestamp: number
+): StrategyRun {
+  return { address, strategy, state: strategy.init(), startedAt: timestamp };
+}
+
+export function buildStrategyContext(
+  portfolio: Portfolio,
+  address: string,
+  pair: DexScreenerPair,
+  timestamp: number
+): StrategyContext | null {
+  const position = portfolio.tokens.find((t) => t.address === address);
+  const price = parseFloat(pair.priceUsd);
+  if (!position || !(price > 0)) return null;
+
+  return {
+    address,
+    pair,
+    price,
+    timestamp,
+    position,
+    cash: getAvailableBalance(portfolio),
+    availableTokens: getAvailableTokens(portfolio, address),
+  };
+}
+
+function describeIntent(intent: OrderIntent): string {
+  const size =
+    "tokenAmount" in intent
+      ? `${intent.tokenAmount.toFixed(6)} tokens`
+      : `$${intent.amount.toFixed(2)}`;
+  return intent.reason ? `${size} – ${intent.reason}` : size;
+}
+
+function isValidIntent(intent: OrderIntent): boolean {
+  if (intent.type !== "buy" && intent.type !== "sell") return false;
+  const size = "tokenAmount" in intent ? intent.tokenAmount : intent.amount;
+  return typeof size === "number" && size > 0 && isFinite(size);
+}
+
+export function createDecision(
+  run: StrategyRun,
+  context: Pick<StrategyContext, "timestamp" | "price" | "position">,
+  action: StrategyAction,
+  note: string
+): StrategyDecision {
+  return {
+    id: createDecisionId(),
+    timestamp: context.timestamp,
+    address: run.address,
+    symbol: context.position.symbol,
+    strategy: run.strategy.name,
+    action,
+    price: context.price,
+    note,
+  };
+}
+
+// Runs one tick of a strategy. Intents are executed in order through the
+// executor, so each one sees the fills of the ones before it. Ticks where the
+// strategy holds produce no decisions.
+export function runStrategyTick(
+  run: StrategyRun,
+  context: StrategyContext,
+  execute: OrderExecutor
+): StrategyDecision[] {
+  let result;
+  try {
+    result = run.strategy.onTick(context, run.state);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return [createDecision(run, context, "error", message)];
+  }
+
+  const intents = result ? (Array.isArray(result) ? result : [result]) : [];
+
+  return intents.map((intent): StrategyDecision => {
+    if (!isValidIntent(intent)) {
+      return createDecision(
+        run,
+        context,
+        "error",
+        `Invalid order intent: ${JSON.stringify(intent)}`
+      );
+    }
+
+    const error = execute({
+      address: run.address,
+      type: intent.type,
+      ...("tokenAmount" in intent
+        ? { tokenAmount: intent.tokenAmount }
+        : { amount: intent.amount }),
+      trigger: "strategy",
+      timestamp: context.timestamp,
+    });
+    const note = describeIntent(intent);
+    return {
+      ...createDecision(
+        run,
+        context,
+        intent.type,
+        error ? `${note} (${error})` : note
+      ),
+      status: error ? "rejected" : "filled",
+    };
+  });
+}
@@ -0,0 +1,18 @@
+// lib/triggers.ts
+import type { TokenPosition, TriggerReason } from "@/lib/types";
+
+export function checkExitTriggers(
+  position: TokenPosition,
+  price: number
+): TriggerReason | null {
+  if (position.holdings <= 0 || !(price > 0)) return null;
+
+  // Stop-loss wins when a gap crosses both levels in a single tick.
+  if (position.stopLoss !== undefined && price <= position.stopLoss) {
+    return "stop-loss";
+  }
+  if (position.takeProfit !== undefined && price >= position.takeProfit) {
+    return "take-profit";
+  }
+  return null;
+}
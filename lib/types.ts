@@ -0,0 +1,88 @@
+// lib/types.ts
+export interface TradeFees {
+  swap: number;
+  network: number;
+  tax: number;
+  total: number;
+}
+
+export type TriggerReason =
+  | "stop-loss"
+  | "take-profit"
+  | "limit"
+  | "trailing-stop"
+  | "strategy";
+
+export interface Trade {
+  id: string;
+  symbol: string;
+  type: "buy" | "sell";
+  amount: number;
+  price: number;
+  value: number;
+  timestamp: number;
+  marketPrice: number;
+  priceImpact: number;
+  fees: TradeFees;
+  // DexScreener chain id of the pair the trade filled against.
+  chainId?: string;
+  trigger?: TriggerReason;
+  orderId?: string;
+  pnl?: number;
+  pnlPercent?: number;
+}
+
+export interface TokenPosition {
+  address: string;
+  chainId: string;
+  // Pair the position trades against; the most liquid pair when unset.
+  pairAddress?: string;
+  symbol: string;
+  holdings: number;
+  trades: Trade[];
+  pnl: number;
+  fees: number;
+  averageCost: number;
+  currentPrice: number;
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+interface OrderBase {
+  id: string;
+  address: string;
+  symbol: string;
+  type: "buy" | "sell";
+  // USD to spend for buys, tokens to sell for sells.
+  size: number;
+  // Cash (buys) or tokens (sells) held back while the order rests.
+  reserved: number;
+  createdAt: number;
+}
+
+export interface LimitOrder extends OrderBase {
+  kind: "limit";
+  limitPrice: number;
+}
+
+// Sells once price falls a fixed distance below the highest price seen since
+// the order was placed.
+export interface TrailingStopOrder extends OrderBase {
+  kind: "trailing-stop";
+  type: "sell";
+  trailMode: "percent" | "absolute";
+  trailDistance: number;
+  highWaterMark: number;
+  stopPrice: number;
+}
+
+// One-cancels-other: whichever leg is hit first sells the size and the other
+// leg goes away with the order.
+export interface BracketOrder extends OrderBase {
+  kind: "bracket";
+  type: "sell";
+  stopPrice: number;
+  takeProfitPrice: number;
+}
+
+export type Order = LimitOrder | TrailingStopOrder | BracketOrder;
@@ -37,6 +37,15 @@ export function formatCurrency(num: number, decimals: number = 2): string {
   return "$" + num.toFixed(decimals);
 }
 
+// Compact age of a timestamp, e.g. a pool's creation time ("5h", "12d").
+export function formatAge(timestamp: number, now: number = Date.now()): string {
+  if (!timestamp) return "—";
+  const hours = (now - timestamp) / 3_600_000;
+  if (hours < 1) return "<1h";
+  if (hours < 48) return `${Math.floor(hours)}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
 export function calculatePercentChange(
   current: number,
   previous: number
@@ -52,6 +61,17 @@ export function parseTokenAmount(amount: string | number): number {
   return amount;
 }
 
+// Saves text as a file through a temporary object URL (browser only).
+export function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export function validateNumber(value: any): number {
   const num = parseFloat(value);
   return isNaN(num) ? 0 : num;
@@ -0,0 +1,60 @@
+// lib/watchlist.ts
+import type { ChainId } from "@/lib/chains";
+
+// A token being watched without a trading card. A token is either on the
+// watchlist or shown as a card, never both, and an open position always has
+// a card.
+export interface WatchlistEntry {
+  address: string;
+  chainId: ChainId;
+  pairAddress?: string;
+  symbol: string;
+  addedAt: number;
+}
+
+export function isWatched(watchlist: WatchlistEntry[], address: string) {
+  const normalizedAddress = address.toLowerCase();
+  return watchlist.some((e) => e.address === normalizedAddress);
+}
+
+// Open positions get a card even if the token is on the watchlist, so they
+// can't end up hidden.
+export function hasTradingCard(
+  watchlist: WatchlistEntry[],
+  position: { address: string; holdings: number }
+) {
+  return position.holdings > 0 || !isWatched(watchlist, position.address);
+}
+
+export function addToWatchlist(
+  watchlist: WatchlistEntry[],
+  entry: WatchlistEntry
+): WatchlistEntry[] {
+  if (isWatched(watchlist, entry.address)) return watchlist;
+  return [...watchlist, { ...entry, address: entry.address.toLowerCase() }];
+}
+
+export function removeFromWatchlist(
+  watchlist: WatchlistEntry[],
+  address: string
+): WatchlistEntry[] {
+  const normalizedAddress = address.toLowerCase();
+  return watchlist.filter((e) => e.address !== normalizedAddress);
+}
+
+// Moves an entry up (negative offset) or down, clamped to the list.
+export function moveWatchlistEntry(
+  watchlist: WatchlistEntry[],
+  address: string,
+  offset: number
+): WatchlistEntry[] {
+  const from = watchlist.findIndex((e) => e.address === address.toLowerCase());
+  if (from === -1) return watchlist;
+  const to = Math.min(Math.max(from + offset, 0), watchlist.length - 1);
+  if (to === from) return watchlist;
+
+  const next = [...watchlist];
+  const [entry] = next.splice(from, 1);
+  next.splice(to, 0, entry);
+  return next;
+}
@@ -0,0 +1,133 @@
+// scripts/backtest.ts
+//
+// Runs a strategy over recorded NDJSON sessions and writes JSON and Markdown
+// reports. Works fully offline.
+//
+//   pnpm backtest --strategy sma-crossover [--balance 1000] [--out report]
+//     [--cost-basis fifo] [--token <address>]... <recording.ndjson> [...]
+//
+// --strategy takes a built-in id (see strategies/index.ts) or a path to a
+// module exporting a Strategy.
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { DEFAULT_FEE_SETTINGS } from "@/lib/fees";
+import {
+  COST_BASIS_METHODS,
+  DEFAULT_COST_BASIS_METHOD,
+  type CostBasisMethod,
+} from "@/lib/cost-basis";
+import { parseRecording } from "@/lib/recording";
+import { runBacktest, toMarkdownReport } from "@/lib/backtest";
+import type { Strategy } from "@/lib/strategy";
+import { getStrategy, STRATEGIES } from "@/strategies";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    strategy: { type: "string" },
+    balance: { type: "string", default: "1000" },
+    out: { type: "string", default: `backtest-${Date.now()}` },
+    "cost-basis": { type: "string", default: DEFAULT_COST_BASIS_METHOD },
+    token: { type: "string", multiple: true },
+  },
+});
+
+function isStrategy(value: unknown): value is Strategy {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Strategy).onTick === "function" &&
+    typeof (value as Strategy).init === "function"
+  );
+}
+
+async function loadStrategy(idOrPath: string): Promise<Strategy> {
+  const builtIn = getStrategy(idOrPath);
+  if (builtIn) return builtIn;
+
+  const path = resolve(idOrPath);
+  if (!existsSync(path)) {
+    throw new Error(
+      `Unknown strategy "${idOrPath}". Built-in: ${STRATEGIES.map(
+        (s) => s.id
+      ).join(", ")}`
+    );
+  }
+
+  const mod = await import(pathToFileURL(path).href);
+  const strategy = [mod.default, ...Object.values(mod)].find(isStrategy);
+  if (!strategy) throw new Error(`${idOrPath} does not export a strategy`);
+  return strategy;
+}
+
+async function main() {
+  if (!values.strategy || positionals.length === 0) {
+    console.error(
+      "Usage: pnpm backtest --strategy <id|path> [--balance <usd>] [--out <name>] [--cost-basis <method>] [--token <address>]... <recording>..."
+    );
+    process.exit(1);
+  }
+
+  const initialBalance = parseFloat(values.balance!);
+  if (!(initialBalance > 0)) {
+    console.error("--balance must be a positive number");
+    process.exit(1);
+  }
+
+  const costBasisMethod = values["cost-basis"] as CostBasisMethod;
+  if (!(costBasisMethod in COST_BASIS_METHODS)) {
+    console.error(
+      `--cost-basis must be one of: ${Object.keys(COST_BASIS_METHODS).join(
+        ", "
+      )}`
+    );
+    process.exit(1);
+  }
+
+  const strategy = await loadStrategy(values.strategy);
+  const options = {
+    initialBalance,
+    feeSettings: DEFAULT_FEE_SETTINGS,
+    costBasisMethod,
+    addresses: values.token,
+  };
+
+  const runs = positionals.map((file) => {
+    const recording = parseRecording(readFileSync(file, "utf8"));
+    const result = runBacktest(recording, strategy, options);
+    const { summary } = result;
+    console.log(
+      `${basename(file)}: ${
+        summary.tradeCount
+      } trades, return ${summary.totalReturnPercent.toFixed(
+        2
+      )}%, max drawdown ${summary.maxDrawdownPercent.toFixed(2)}%`
+    );
+    return { recording: file, ...result };
+  });
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    strategy: { id: strategy.id, name: strategy.name },
+    options,
+    runs,
+  };
+  const markdown = [
+    `# Backtest: ${strategy.name}`,
+    "",
+    strategy.description,
+    "",
+    ...runs.map((run) => toMarkdownReport(run, basename(run.recording))),
+  ].join("\n");
+
+  writeFileSync(`${values.out}.json`, JSON.stringify(report, null, 2));
+  writeFileSync(`${values.out}.md`, markdown);
+  console.log(`Wrote ${values.out}.json and ${values.out}.md`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,266 @@
+// scripts/check-polling.ts
+//
+// Drives DexScreenerService offline on a manual clock and checks polling,
+// batching, request sharing, per-endpoint 429 backoff and fixture playback.
+//
+//   pnpm check:polling
+//
+// Exits non-zero on the first failed check.
+import assert from "node:assert/strict";
+import { ManualClock } from "@/lib/clock";
+import type { Recording } from "@/lib/recording";
+import {
+  DexScreenerService,
+  dexScreenerService,
+  type DexScreenerPair,
+} from "@/services/dexscreener-service";
+import {
+  DexScreenerProvider,
+  type FetchFn,
+} from "@/services/dexscreener-provider";
+import { FixtureProvider } from "@/services/fixture-provider";
+
+// The shared instance polls on the real clock; it isn't used here.
+dexScreenerService.stopUpdates();
+
+const BASE_URL = "https://api.test";
+
+function makePair(
+  address: string,
+  pairAddress: string,
+  price: number
+): DexScreenerPair {
+  const token = { address, name: address, symbol: address.toUpperCase() };
+  const quote = { address: "usdc", name: "USD Coin", symbol: "USDC" };
+  const window = { h24: 0, h6: 0, h1: 0, m5: 0 };
+  const txns = { buys: 0, sells: 0 };
+  return {
+    chainId: "solana",
+    dexId: "raydium",
+    pairAddress,
+    baseToken: token,
+    quoteToken: quote,
+    priceUsd: String(price),
+    priceNative: String(price),
+    priceChange: window,
+    volume: window,
+    liquidity: { usd: 100_000, base: 0, quote: 0 },
+    txns: { h24: txns, h6: txns, h1: txns, m5: txns },
+    marketCap: 1_000_000,
+    fdv: 1_000_000,
+    pairCreatedAt: 0,
+  };
+}
+
+const PAIRS = [makePair("tokena", "PairA", 1), makePair("tokenb", "PairB", 2)];
+
+interface StubRequest {
+  time: number;
+  path: string;
+}
+
+interface StubFailure {
+  status: number;
+  retryAfter?: string;
+  // Only fail requests to this endpoint; any endpoint if unset.
+  endpoint?: string;
+}
+
+// Answers the tokens and pairs endpoints from PAIRS, or with the queued
+// error statuses first.
+function createStubFetch(clock: ManualClock) {
+  const requests: StubRequest[] = [];
+  const failures: StubFailure[] = [];
+
+  const fetchFn = (async (input: string | URL | Request) => {
+    const path = String(input).slice(BASE_URL.length);
+    requests.push({ time: clock.now(), path });
+    const [, endpoint, ...rest] = path.split("/");
+
+    const index = failures.findIndex(
+      (f) => !f.endpoint || f.endpoint === endpoint
+    );
+    if (index !== -1) {
+      const [failure] = failures.splice(index, 1);
+      const headers = new Headers();
+      if (failure.retryAfter) headers.set("Retry-After", failure.retryAfter);
+      return new Response(null, { status: failure.status, headers });
+    }
+
+    const wanted = rest[rest.length - 1].toLowerCase().split(",");
+    const pairs = PAIRS.filter((pair) =>
+      wanted.includes(
+        endpoint === "tokens"
+          ? pair.baseToken.address
+          : pair.pairAddress.toLowerCase()
+      )
+    );
+    return Response.json({ pairs });
+  }) as FetchFn;
+
+  return { fetchFn, requests, failures };
+}
+
+// Moves the clock in small steps so the request queue's promise chains
+// settle between timers, as they would in real time.
+async function advance(clock: ManualClock, ms: number, step = 100) {
+  for (let elapsed = 0; elapsed < ms; elapsed += step) {
+    await clock.advance(Math.min(step, ms - elapsed));
+  }
+}
+
+function createService() {
+  const clock = new ManualClock(0);
+  const stub = createStubFetch(clock);
+  const service = new DexScreenerService({
+    clock,
+    provider: new DexScreenerProvider({
+      fetch: stub.fetchFn,
+      baseUrl: BASE_URL,
+    }),
+  });
+  return { clock, service, ...stub };
+}
+
+const checks: Array<[string, () => Promise<void>]> = [
+  [
+    "subscribed tokens are resolved once, then polled by pair in one batch",
+    async () => {
+      const { clock, service, requests } = createService();
+      const prices: Record<string, number[]> = { tokena: [], tokenb: [] };
+      for (const address of ["tokena", "tokenb"]) {
+        service.subscribe(address, (pair) =>
+          prices[address].push(parseFloat(pair.priceUsd))
+        );
+      }
+
+      await advance(clock, service.getPollInterval() * 3);
+      service.stopUpdates();
+
+      const paths = requests.map((r) => r.path);
+      assert.deepEqual(paths.slice(0, 2), ["/tokens/tokena", "/tokens/tokenb"]);
+      const polls = paths.slice(2);
+      assert.ok(polls.every((p) => p === "/pairs/solana/PairA,PairB"));
+      // One snapshot per response: the first lookup, then each poll.
+      assert.equal(polls.length, 2);
+      assert.deepEqual(prices, { tokena: [1, 1, 1], tokenb: [2, 2, 2] });
+    },
+  ],
+  [
+    "identical requests in flight share one fetch",
+    async () => {
+      const { service, requests } = createService();
+      await Promise.all([
+        service.fetchTokenPairs("tokena"),
+        service.fetchTokenPairs("TOKENA"),
+      ]);
+      service.stopUpdates();
+      assert.equal(requests.length, 1);
+    },
+  ],
+  [
+    "a 429 holds the endpoint for Retry-After before trying again",
+    async () => {
+      const { clock, service, requests, failures } = createService();
+      failures.push({ status: 429, retryAfter: "5" });
+      const seen: number[] = [];
+      service.addBackoffListener((state) =>
+        seen.push(state.tokens?.failures ?? 0)
+      );
+      service.subscribe("tokena", () => {});
+
+      await advance(clock, 1000);
+      assert.equal(requests.length, 1);
+      const backoff = service.getBackoffState().tokens;
+      assert.equal(backoff?.failures, 1);
+      assert.equal(backoff?.status, 429);
+      assert.ok(backoff!.retryAt >= clock.now() + 4000);
+
+      await advance(clock, 10_000);
+      service.stopUpdates();
+      assert.ok(requests.length > 1, "the fetch was never retried");
+      assert.ok(requests[1].time >= 5000, "retried before Retry-After");
+      assert.equal(service.getBackoffState().tokens, undefined);
+      assert.deepEqual(seen, [1, 0]);
+    },
+  ],
+  [
+    "pairs keep polling while the tokens endpoint backs off",
+    async () => {
+      const { clock, service, requests, failures } = createService();
+      service.subscribe("tokena", () => {});
+      await advance(clock, 1000);
+
+      failures.push({ status: 429, retryAfter: "30", endpoint: "tokens" });
+      const start = clock.now();
+      service.subscribe("tokenb", () => {});
+      await advance(clock, 1000);
+      // Queued behind the backoff.
+      service.subscribe("tokenb", () => {});
+      await advance(clock, 20_000);
+      service.stopUpdates();
+
+      const since = requests.filter((r) => r.time >= start).map((r) => r.path);
+      assert.deepEqual(
+        since.filter((p) => p.startsWith("/tokens/")),
+        ["/tokens/tokenb"],
+        "tokens retried during its backoff"
+      );
+      const polls = since.filter((p) => p === "/pairs/solana/PairA");
+      assert.ok(polls.length >= 5, `only ${polls.length} pair polls`);
+      const backoff = service.getBackoffState();
+      assert.equal(backoff.tokens?.status, 429);
+      assert.equal(backoff.pairs, undefined);
+    },
+  ],
+  [
+    "the fixture provider serves the recording in step with the clock",
+    async () => {
+      const clock = new ManualClock(0);
+      const start = 1_700_000_000_000;
+      const recording: Recording = {
+        header: {
+          type: "session",
+          version: 1,
+          startedAt: start,
+          pollInterval: 3000,
+          addresses: ["tokena"],
+          source: "check",
+        },
+        ticks: [1, 2, 3].map((price, i) => ({
+          type: "tick",
+          timestamp: start + i * 10_000,
+          address: "tokena",
+          pair: makePair("tokena", "PairA", price),
+        })),
+      };
+      const service = new DexScreenerService({
+        clock,
+        provider: new FixtureProvider(recording, clock),
+      });
+      const prices: number[] = [];
+      service.subscribe("tokena", (pair) =>
+        prices.push(parseFloat(pair.priceUsd))
+      );
+
+      await advance(clock, 25_000);
+      service.stopUpdates();
+      assert.deepEqual(prices, [1, 1, 1, 2, 2, 2, 3, 3]);
+      // Recording time starts at the first fetch, within the first step.
+      const elapsed = service.now() - start;
+      assert.ok(elapsed > 24_800 && elapsed <= 25_000);
+    },
+  ],
+];
+
+async function main() {
+  for (const [name, check] of checks) {
+    await check();
+    console.log(`ok - ${name}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
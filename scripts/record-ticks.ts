@@ -0,0 +1,55 @@
+// scripts/record-ticks.ts
+//
+// Records DexScreener snapshots for the given token addresses to NDJSON.
+//
+//   pnpm record --out session.ndjson --duration 600 <address> [address...]
+//
+// Stops after --duration seconds, or on Ctrl+C.
+import { createWriteStream } from "node:fs";
+import { parseArgs } from "node:util";
+import { dexScreenerService } from "@/services/dexscreener-service";
+import { TickRecorder } from "@/services/tick-recorder";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    out: { type: "string", default: `session-${Date.now()}.ndjson` },
+    duration: { type: "string" },
+  },
+});
+
+if (positionals.length === 0) {
+  console.error(
+    "Usage: pnpm record --out <file> [--duration <seconds>] <address>..."
+  );
+  process.exit(1);
+}
+
+const file = createWriteStream(values.out!, { flags: "w" });
+const recorder = new TickRecorder((line) => file.write(line));
+const unsubscribers = positionals.map((address) =>
+  dexScreenerService.subscribe(address, () => {})
+);
+
+recorder.start("node");
+console.log(`Recording ${positionals.length} token(s) to ${values.out}`);
+
+const progress = setInterval(() => {
+  console.log(`${recorder.getTickCount()} ticks recorded`);
+}, 30_000);
+
+function finish() {
+  clearInterval(progress);
+  recorder.stop();
+  unsubscribers.forEach((unsubscribe) => unsubscribe());
+  dexScreenerService.stopUpdates();
+  file.end(() => {
+    console.log(`Saved ${recorder.getTickCount()} ticks to ${values.out}`);
+    process.exit(0);
+  });
+}
+
+process.on("SIGINT", finish);
+if (values.duration) {
+  setTimeout(finish, parseFloat(values.duration) * 1000);
+}
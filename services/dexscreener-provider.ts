@@ -0,0 +1,87 @@
+// services/dexscreener-provider.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import {
+  ProviderRequestError,
+  type MarketDataProvider,
+} from "@/services/market-data-provider";
+
+export type FetchFn = typeof fetch;
+
+interface DexScreenerProviderOptions {
+  fetch?: FetchFn;
+  baseUrl?: string;
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function requestError(message: string, response: Response) {
+  return new ProviderRequestError(
+    message,
+    response.status,
+    parseRetryAfter(response.headers.get("Retry-After"))
+  );
+}
+
+export class DexScreenerProvider implements MarketDataProvider {
+  readonly name = "live";
+  private readonly fetchFn: FetchFn;
+  private readonly baseUrl: string;
+
+  constructor(options: DexScreenerProviderOptions = {}) {
+    // Bound so the browser's fetch isn't called with a foreign `this`.
+    this.fetchFn = options.fetch ?? ((...args) => fetch(...args));
+    this.baseUrl = options.baseUrl ?? "https://api.dexscreener.com/latest/dex";
+  }
+
+  async fetchPairs(addresses: string[]): Promise<DexScreenerPair[]> {
+    const response = await this.fetchFn(
+      `${this.baseUrl}/tokens/${addresses.join(",")}`
+    );
+
+    if (!response.ok) {
+      throw requestError("Failed to fetch token data", response);
+    }
+
+    const data = await response.json();
+    return data.pairs ?? [];
+  }
+
+  async fetchPairsByAddress(
+    chainId: string,
+    pairAddresses: string[]
+  ): Promise<DexScreenerPair[]> {
+    const response = await this.fetchFn(
+      `${this.baseUrl}/pairs/${chainId}/${pairAddresses.join(",")}`
+    );
+
+    if (!response.ok) {
+      throw requestError("Failed to fetch pair data", response);
+    }
+
+    const data = await response.json();
+    return data.pairs ?? (data.pair ? [data.pair] : []);
+  }
+
+  async searchPairs(query: string): Promise<DexScreenerPair[]> {
+    const response = await this.fetchFn(
+      `${this.baseUrl}/search?q=${encodeURIComponent(query)}`
+    );
+
+    if (!response.ok) {
+      throw requestError("Failed to search tokens", response);
+    }
+
+    const data = await response.json();
+    return data.pairs ?? [];
+  }
+}
@@ -1,4 +1,13 @@
 // services/dexscreener-service.ts
+import {
+  ProviderRequestError,
+  type MarketDataProvider,
+} from "@/services/market-data-provider";
+import { DexScreenerProvider } from "@/services/dexscreener-provider";
+import { systemClock, type Clock, type TimerHandle } from "@/lib/clock";
+import type { ChainId } from "@/lib/chains";
+import { rankSearchResults, SEARCH_MIN_LENGTH } from "@/lib/search";
+
 export interface DexScreenerPair {
   chainId: string;
   dexId: string;
@@ -55,8 +64,8 @@ export interface DexScreenerPair {
   pairCreatedAt: number;
 }
 
-// Create a type for market stats to better handle the data
-interface MarketStats {
+// The headline numbers a trading card shows for a pair.
+export interface MarketStats {
   price: number;
   priceChange24h: number;
   marketCap: number;
@@ -66,16 +75,19 @@ interface MarketStats {
 
 class RateLimiter {
   private requests: number = 0;
-  private lastReset: number = Date.now();
+  private lastReset: number;
   private readonly resetInterval = 60000; // 1 minute in milliseconds
   private readonly limit: number;
+  private readonly clock: Clock;
 
-  constructor(limitPerMinute: number) {
+  constructor(limitPerMinute: number, clock: Clock) {
     this.limit = limitPerMinute;
+    this.clock = clock;
+    this.lastReset = clock.now();
   }
 
   async waitForAvailability(): Promise<void> {
-    const now = Date.now();
+    const now = this.clock.now();
     if (now - this.lastReset >= this.resetInterval) {
       this.requests = 0;
       this.lastReset = now;
@@ -83,7 +95,9 @@ class RateLimiter {
 
     if (this.requests >= this.limit) {
       const waitTime = this.resetInterval - (now - this.lastReset);
-      await new Promise((resolve) => setTimeout(resolve, waitTime));
+      await new Promise<void>((resolve) =>
+        this.clock.setTimeout(resolve, waitTime)
+      );
       return this.waitForAvailability();
     }
 
@@ -91,42 +105,177 @@ class RateLimiter {
   }
 }
 
-class DexScreenerService {
-  private static instance: DexScreenerService;
+// The API endpoints, each throttled separately by the server.
+export type ApiEndpoint = "tokens" | "pairs" | "search";
+
+export interface BackoffState {
+  // Consecutive retryable failures.
+  failures: number;
+  // HTTP status of the last failure; unset for network errors.
+  status?: number;
+  // When the endpoint may be called again, on the service's now() timeline.
+  retryAt: number;
+}
+
+// Endpoints currently backing off.
+export type BackoffSnapshot = Partial<Record<ApiEndpoint, BackoffState>>;
+
+// Per-endpoint exponential backoff after throttling or server errors.
+// Retry-After is honored when the server sends it; otherwise the delay
+// doubles with each failure, with jitter so several clients behind one IP
+// don't retry in lockstep.
+class EndpointBackoff {
+  private states: Map<ApiEndpoint, BackoffState> = new Map();
+  private readonly baseDelay = 1000;
+  private readonly maxDelay = 60000;
+  private readonly clock: Clock;
+  private readonly onChange: () => void;
+
+  constructor(clock: Clock, onChange: () => void) {
+    this.clock = clock;
+    this.onChange = onChange;
+  }
+
+  // States with retry times moved onto the timeline now is read from.
+  snapshot(now: number): BackoffSnapshot {
+    return Object.fromEntries(
+      Array.from(this.states, ([endpoint, state]) => [
+        endpoint,
+        { ...state, retryAt: now + this.delay(endpoint) },
+      ])
+    );
+  }
+
+  // Remaining wait before the endpoint may be called again.
+  delay(endpoint: ApiEndpoint): number {
+    const state = this.states.get(endpoint);
+    return state ? Math.max(0, state.retryAt - this.clock.now()) : 0;
+  }
+
+  async wait(endpoint: ApiEndpoint): Promise<void> {
+    const delay = this.delay(endpoint);
+    if (delay === 0) return;
+    await new Promise<void>((resolve) => this.clock.setTimeout(resolve, delay));
+    return this.wait(endpoint);
+  }
+
+  recordSuccess(endpoint: ApiEndpoint) {
+    if (this.states.delete(endpoint)) this.onChange();
+  }
+
+  // Errors that waiting won't fix (e.g. a 404) don't back off.
+  recordFailure(endpoint: ApiEndpoint, error: unknown) {
+    if (!isRetryable(error)) return;
+
+    const failures = (this.states.get(endpoint)?.failures ?? 0) + 1;
+    const exponential = Math.min(
+      this.maxDelay,
+      this.baseDelay * 2 ** (failures - 1)
+    );
+    const retryAfter =
+      error instanceof ProviderRequestError ? error.retryAfterMs : undefined;
+    const delay =
+      retryAfter !== undefined
+        ? retryAfter + Math.random() * this.baseDelay
+        : exponential / 2 + Math.random() * (exponential / 2);
+
+    this.states.set(endpoint, {
+      failures,
+      status: error instanceof ProviderRequestError ? error.status : undefined,
+      retryAt: this.clock.now() + delay,
+    });
+    this.onChange();
+  }
+}
+
+// Throttling, server errors and network failures are retried; other HTTP
+// errors won't go away by waiting.
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderRequestError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return error instanceof TypeError;
+}
+
+export interface DexScreenerServiceOptions {
+  provider?: MarketDataProvider;
+  clock?: Clock;
+  // Start polling on construction (default true).
+  autoStart?: boolean;
+}
+
+export interface SubscribeOptions {
+  // Only pairs on this chain are considered.
+  chainId?: ChainId;
+  // Pair to track the token on; falls back to the most liquid pair when the
+  // current provider doesn't list it.
+  pairAddress?: string;
+}
+
+// A polled pair and the base token it's tracked for.
+interface TrackedPair {
+  address: string;
+  chainId: ChainId;
+  pairAddress: string;
+}
+
+export class DexScreenerService {
   private subscribers: Map<string, Set<(data: DexScreenerPair) => void>> =
     new Map();
-  private tokenData: Map<string, DexScreenerPair> = new Map();
-  private updateInterval: NodeJS.Timeout | null = null;
+  private updateListeners: Set<
+    (address: string, data: DexScreenerPair) => void
+  > = new Set();
+  // Subscriptions are polled by pair: lowercased pair address -> token.
+  private trackedPairs: Map<string, TrackedPair> = new Map();
+  // Pair each subscribed token is currently tracked on.
+  private activePairs: Map<string, string> = new Map();
+  // Pair each token was pinned to, kept across provider switches.
+  private preferredPairs: Map<string, string> = new Map();
+  private pairData: Map<string, DexScreenerPair> = new Map();
+  private updateInterval: TimerHandle | null = null;
   private lastUpdateTime: Map<string, number> = new Map();
+  // Chain each subscribed address is constrained to, if any.
+  private chains: Map<string, ChainId> = new Map();
   private rateLimiter: RateLimiter;
+  private backoff: EndpointBackoff;
+  private backoffListeners: Set<(state: BackoffSnapshot) => void> = new Set();
+  // Requests in flight by endpoint and argument set, so concurrent callers
+  // asking for the same data share one request.
+  private inFlight: Map<string, Promise<DexScreenerPair[]>> = new Map();
+  // The page is in a background tab; polling slows down.
+  private hidden = false;
+  private provider: MarketDataProvider;
+  private readonly clock: Clock;
 
   private readonly UPDATE_INTERVAL = 3000; // 3 seconds
-  private readonly BASE_URL = "https://api.dexscreener.com/latest/dex";
+  private readonly HIDDEN_UPDATE_INTERVAL = 30000; // 30 seconds
   private readonly RATE_LIMIT = 300; // requests per minute
-  private readonly BATCH_SIZE = 10; // tokens per request
-  private requestQueue: Array<() => Promise<void>> = [];
-  private isProcessingQueue = false;
-
-  private constructor() {
-    this.rateLimiter = new RateLimiter(this.RATE_LIMIT);
-    this.startUpdates();
-  }
-
-  static getInstance(): DexScreenerService {
-    if (!DexScreenerService.instance) {
-      DexScreenerService.instance = new DexScreenerService();
-    }
-    return DexScreenerService.instance;
+  private readonly BATCH_SIZE = 10; // pairs per request
+  // One serial queue per endpoint, so an endpoint that is backing off
+  // doesn't hold up requests to the others.
+  private requestQueues: Map<ApiEndpoint, Array<() => Promise<void>>> =
+    new Map();
+  private processingQueues: Set<ApiEndpoint> = new Set();
+
+  constructor(options: DexScreenerServiceOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.provider = options.provider ?? new DexScreenerProvider();
+    this.rateLimiter = new RateLimiter(this.RATE_LIMIT, this.clock);
+    this.backoff = new EndpointBackoff(this.clock, () => {
+      const state = this.getBackoffState();
+      this.backoffListeners.forEach((listener) => listener(state));
+    });
+    if (options.autoStart !== false) this.startUpdates();
   }
 
-  private async processQueue() {
-    if (this.isProcessingQueue || this.requestQueue.length === 0) return;
+  private async processQueue(endpoint: ApiEndpoint) {
+    const queue = this.requestQueues.get(endpoint);
+    if (this.processingQueues.has(endpoint) || !queue?.length) return;
 
-    this.isProcessingQueue = true;
-    while (this.requestQueue.length > 0) {
-      const request = this.requestQueue.shift();
+    this.processingQueues.add(endpoint);
+    while (queue.length > 0) {
+      const request = queue.shift();
       if (request) {
-        await this.rateLimiter.waitForAvailability();
         try {
           await request();
         } catch (error) {
@@ -134,138 +283,259 @@ class DexScreenerService {
         }
       }
     }
-    this.isProcessingQueue = false;
+    this.processingQueues.delete(endpoint);
   }
 
-  private queueRequest(request: () => Promise<void>) {
-    this.requestQueue.push(request);
-    this.processQueue();
+  private queueRequest(endpoint: ApiEndpoint, request: () => Promise<void>) {
+    const queue = this.requestQueues.get(endpoint) ?? [];
+    queue.push(request);
+    this.requestQueues.set(endpoint, queue);
+    this.processQueue(endpoint);
   }
 
-  async fetchTokenData(address: string): Promise<DexScreenerPair | null> {
-    try {
-      await this.rateLimiter.waitForAvailability();
-
-      const response = await fetch(`${this.BASE_URL}/tokens/${address}`);
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch token data");
+  // Every provider call goes through here: identical concurrent calls are
+  // shared, and API calls wait out the endpoint's backoff and the rate
+  // limit. Pushing providers are local, so they skip the API budget.
+  private request(
+    endpoint: ApiEndpoint,
+    args: string[],
+    call: () => Promise<DexScreenerPair[]>
+  ): Promise<DexScreenerPair[]> {
+    const key = [this.provider.name, endpoint, ...args].join(":");
+    const existing = this.inFlight.get(key);
+    if (existing) return existing;
+
+    const pushesUpdates = this.provider.pushesUpdates;
+    const promise = (async () => {
+      if (!pushesUpdates) {
+        await this.backoff.wait(endpoint);
+        await this.rateLimiter.waitForAvailability();
       }
+      try {
+        const result = await call();
+        this.backoff.recordSuccess(endpoint);
+        return result;
+      } catch (error) {
+        this.backoff.recordFailure(endpoint, error);
+        throw error;
+      }
+    })();
 
-      const data = await response.json();
+    this.inFlight.set(key, promise);
+    const settle = () => {
+      if (this.inFlight.get(key) === promise) this.inFlight.delete(key);
+    };
+    promise.then(settle, settle);
+    return promise;
+  }
 
-      if (data.pairs && data.pairs.length > 0) {
-        const sortedPairs = data.pairs.sort(
-          (a: DexScreenerPair, b: DexScreenerPair) =>
-            (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0)
-        );
+  // Every pair for the token on chainId (or the chain it was subscribed
+  // with), most liquid first.
+  async fetchTokenPairs(
+    address: string,
+    chainId?: ChainId
+  ): Promise<DexScreenerPair[]> {
+    const normalizedAddress = address.toLowerCase();
+    const chain = chainId ?? this.chains.get(normalizedAddress);
+
+    const pairs = await this.request("tokens", [normalizedAddress], () =>
+      this.provider.fetchPairs([normalizedAddress])
+    );
+    return pairs
+      .filter(
+        (pair) =>
+          pair.baseToken.address.toLowerCase() === normalizedAddress &&
+          (!chain || pair.chainId === chain)
+      )
+      .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0));
+  }
 
-        const pair = sortedPairs[0];
-        const normalizedAddress = address.toLowerCase();
-        this.tokenData.set(normalizedAddress, pair);
-        this.lastUpdateTime.set(normalizedAddress, Date.now());
+  // Tokens matching a name, symbol or address, one pair (the most liquid)
+  // per token. Errors are left to the caller, which owns the search UI.
+  async searchTokens(query: string): Promise<DexScreenerPair[]> {
+    const trimmed = query.trim();
+    if (trimmed.length < SEARCH_MIN_LENGTH) return [];
 
-        const subscribers = this.subscribers.get(normalizedAddress);
-        if (subscribers) {
-          subscribers.forEach((callback) => callback(pair));
-        }
+    const pairs = await this.request("search", [trimmed.toLowerCase()], () =>
+      this.provider.searchPairs(trimmed)
+    );
+    return rankSearchResults(pairs);
+  }
 
-        return pair;
+  // Resolves the pair the token trades on: its pinned pair if the provider
+  // lists it, otherwise the most liquid one. Subscribed tokens start being
+  // polled on that pair.
+  async fetchTokenData(
+    address: string,
+    chainId?: ChainId
+  ): Promise<DexScreenerPair | null> {
+    try {
+      return await this.resolveTokenData(address.toLowerCase(), chainId);
+    } catch (error) {
+      if (!isRetryable(error)) {
+        console.error("Error fetching token data:", error);
       }
       return null;
+    }
+  }
+
+  private async resolveTokenData(
+    normalizedAddress: string,
+    chainId?: ChainId
+  ): Promise<DexScreenerPair | null> {
+    const pairs = await this.fetchTokenPairs(normalizedAddress, chainId);
+    const preferred = this.preferredPairs.get(normalizedAddress);
+    const pair =
+      pairs.find((p) => p.pairAddress.toLowerCase() === preferred) ?? pairs[0];
+
+    if (!pair) return null;
+    if (this.subscribers.has(normalizedAddress)) {
+      this.track(normalizedAddress, pair);
+      this.publish(pair);
+    }
+    return pair;
+  }
+
+  // Fetches a new subscriber's first snapshot, which reaches it through
+  // resolveTokenData's publish. A throttled fetch is queued again once the
+  // backoff ends rather than leaving the token unpolled.
+  private async loadInitialData(
+    address: string,
+    callback: (data: DexScreenerPair) => void
+  ) {
+    try {
+      await this.resolveTokenData(address);
     } catch (error) {
-      console.error("Error fetching token data:", error);
-      return null;
+      if (!isRetryable(error)) {
+        console.error("Error fetching token data:", error);
+        return;
+      }
+      this.clock.setTimeout(() => {
+        if (this.subscribers.get(address)?.has(callback)) {
+          this.queueRequest("tokens", () =>
+            this.loadInitialData(address, callback)
+          );
+        }
+      }, this.backoff.delay("tokens"));
     }
   }
 
-  private async updateBatch(addresses: string[]) {
-    if (addresses.length === 0) return;
+  // Moves the token's polling onto the given pair.
+  private track(address: string, pair: DexScreenerPair) {
+    const key = pair.pairAddress.toLowerCase();
+    const previous = this.activePairs.get(address);
+    if (previous && previous !== key) this.untrack(address);
+
+    this.activePairs.set(address, key);
+    this.trackedPairs.set(key, {
+      address,
+      chainId: pair.chainId,
+      pairAddress: pair.pairAddress,
+    });
+  }
 
-    const fetchBatch = async () => {
-      try {
-        await this.rateLimiter.waitForAvailability();
+  private untrack(address: string) {
+    const key = this.activePairs.get(address);
+    if (!key) return;
+    this.activePairs.delete(address);
+    this.trackedPairs.delete(key);
+    this.pairData.delete(key);
+    this.lastUpdateTime.delete(key);
+  }
 
-        const addressString = addresses.join(",");
-        const response = await fetch(
-          `${this.BASE_URL}/tokens/${addressString}`
-        );
+  // Fans a snapshot out to its token's subscribers if the pair is tracked.
+  private publish(pair: DexScreenerPair) {
+    const key = pair.pairAddress.toLowerCase();
+    const tracked = this.trackedPairs.get(key);
+    if (!tracked) return;
 
-        if (!response.ok) {
-          throw new Error("Failed to fetch token data");
-        }
+    this.pairData.set(key, pair);
+    this.lastUpdateTime.set(key, this.clock.now());
+    this.notifySubscribers(tracked.address, pair);
+  }
 
-        const data = await response.json();
-
-        if (data.pairs) {
-          const pairsByAddress = new Map<string, DexScreenerPair>();
-
-          for (const pair of data.pairs) {
-            const address = pair.baseToken.address.toLowerCase();
-            if (
-              !pairsByAddress.has(address) ||
-              (pair.liquidity?.usd || 0) >
-                (pairsByAddress.get(address)?.liquidity?.usd || 0)
-            ) {
-              pairsByAddress.set(address, pair);
-            }
-          }
-
-          const now = Date.now();
-          for (const [address, pair] of pairsByAddress.entries()) {
-            this.tokenData.set(address, pair);
-            this.lastUpdateTime.set(address, now);
-
-            const subscribers = this.subscribers.get(address);
-            if (subscribers) {
-              subscribers.forEach((callback) => callback(pair));
-            }
-          }
-        }
+  private notifySubscribers(address: string, pair: DexScreenerPair) {
+    const subscribers = this.subscribers.get(address);
+    if (subscribers) {
+      subscribers.forEach((callback) => callback(pair));
+    }
+    this.updateListeners.forEach((listener) => listener(address, pair));
+  }
+
+  private async updateBatch(chainId: ChainId, pairAddresses: string[]) {
+    if (pairAddresses.length === 0) return;
+
+    const addresses = pairAddresses.map((a) => a.toLowerCase()).sort();
+    const fetchBatch = async () => {
+      try {
+        const pairs = await this.request("pairs", [chainId, ...addresses], () =>
+          this.provider.fetchPairsByAddress(chainId, pairAddresses)
+        );
+        pairs.forEach((pair) => this.publish(pair));
       } catch (error) {
-        console.error("Error updating batch:", error);
+        // Retryable failures show up in the backoff state instead.
+        if (!isRetryable(error)) console.error("Error updating batch:", error);
       }
     };
 
-    this.queueRequest(fetchBatch);
+    this.queueRequest("pairs", fetchBatch);
   }
 
   private startUpdates() {
-    if (this.updateInterval) return;
-
-    this.updateInterval = setInterval(() => {
-      const now = Date.now();
-      const addresses = Array.from(this.subscribers.keys()).filter(
-        (addr) =>
-          now - (this.lastUpdateTime.get(addr) || 0) >= this.UPDATE_INTERVAL
-      );
-
-      // Split addresses into batches
-      for (let i = 0; i < addresses.length; i += this.BATCH_SIZE) {
-        const batch = addresses.slice(i, i + this.BATCH_SIZE);
-        this.updateBatch(batch);
-      }
+    if (this.updateInterval || this.provider.pushesUpdates) return;
+
+    this.updateInterval = this.clock.setInterval(() => {
+      // Polls landing during a backoff would only queue up behind it.
+      if (this.backoff.delay("pairs") > 0) return;
+
+      const now = this.clock.now();
+      const interval = this.hidden
+        ? this.HIDDEN_UPDATE_INTERVAL
+        : this.UPDATE_INTERVAL;
+      const due = new Map<ChainId, string[]>();
+      this.trackedPairs.forEach((tracked, key) => {
+        if (now - (this.lastUpdateTime.get(key) || 0) < interval) {
+          return;
+        }
+        const batch = due.get(tracked.chainId) ?? [];
+        batch.push(tracked.pairAddress);
+        due.set(tracked.chainId, batch);
+      });
+
+      // The pairs endpoint takes one chain per request.
+      due.forEach((pairAddresses, chainId) => {
+        for (let i = 0; i < pairAddresses.length; i += this.BATCH_SIZE) {
+          this.updateBatch(
+            chainId,
+            pairAddresses.slice(i, i + this.BATCH_SIZE)
+          );
+        }
+      });
     }, this.UPDATE_INTERVAL);
   }
 
   subscribe(
     address: string,
-    callback: (data: DexScreenerPair) => void
+    callback: (data: DexScreenerPair) => void,
+    options: SubscribeOptions = {}
   ): () => void {
     const normalizedAddress = address.toLowerCase();
+    if (options.chainId) this.chains.set(normalizedAddress, options.chainId);
+    if (options.pairAddress) {
+      this.preferredPairs.set(
+        normalizedAddress,
+        options.pairAddress.toLowerCase()
+      );
+    }
 
     if (!this.subscribers.has(normalizedAddress)) {
       this.subscribers.set(normalizedAddress, new Set());
     }
     this.subscribers.get(normalizedAddress)?.add(callback);
 
-    // Queue initial data fetch
-    this.queueRequest(async () => {
-      const data = await this.fetchTokenData(normalizedAddress);
-      if (data) {
-        callback(data);
-      }
-    });
+    this.queueRequest("tokens", () =>
+      this.loadInitialData(normalizedAddress, callback)
+    );
 
     return () => this.unsubscribe(normalizedAddress, callback);
   }
@@ -275,21 +545,99 @@ class DexScreenerService {
     this.subscribers.get(normalizedAddress)?.delete(callback);
     if (this.subscribers.get(normalizedAddress)?.size === 0) {
       this.subscribers.delete(normalizedAddress);
-      this.tokenData.delete(normalizedAddress);
-      this.lastUpdateTime.delete(normalizedAddress);
+      this.untrack(normalizedAddress);
+      this.preferredPairs.delete(normalizedAddress);
+      this.chains.delete(normalizedAddress);
     }
   }
 
+  // Receives every pair update for every subscribed address, without adding
+  // addresses to the polling set.
+  addUpdateListener(
+    listener: (address: string, data: DexScreenerPair) => void
+  ): () => void {
+    this.updateListeners.add(listener);
+    return () => this.updateListeners.delete(listener);
+  }
+
+  // Swaps where pair data comes from. Subscriptions carry over and are
+  // resolved again against the new provider, which may not list the same
+  // pairs; pushing providers aren't polled.
+  setProvider(provider: MarketDataProvider) {
+    this.stopUpdates();
+    this.provider = provider;
+    this.lastUpdateTime.clear();
+
+    if (!provider.pushesUpdates) {
+      this.startUpdates();
+      this.getTrackedAddresses().forEach((address) =>
+        this.queueRequest("tokens", async () => {
+          await this.fetchTokenData(address);
+        })
+      );
+    }
+  }
+
+  getProvider(): MarketDataProvider {
+    return this.provider;
+  }
+
+  // Publishes a snapshot through the normal subscriber fan-out. Pushing
+  // providers carry one pair per token, so a subscribed token follows
+  // whichever pair they push.
+  ingest(address: string, pair: DexScreenerPair) {
+    const normalizedAddress = address.toLowerCase();
+    if (
+      this.provider.pushesUpdates &&
+      this.subscribers.has(normalizedAddress)
+    ) {
+      this.track(normalizedAddress, pair);
+    }
+    this.publish(pair);
+  }
+
+  // Current market time: the provider's timeline if it has one (replays and
+  // fixtures), otherwise the service clock.
+  now(): number {
+    return this.provider.now?.() ?? this.clock.now();
+  }
+
+  getTrackedAddresses(): string[] {
+    return Array.from(this.subscribers.keys());
+  }
+
+  // Nominal interval while the page is visible.
+  getPollInterval(): number {
+    return this.UPDATE_INTERVAL;
+  }
+
+  // Endpoints backing off after throttling or server errors.
+  getBackoffState(): BackoffSnapshot {
+    return this.backoff.snapshot(this.now());
+  }
+
+  addBackoffListener(listener: (state: BackoffSnapshot) => void): () => void {
+    this.backoffListeners.add(listener);
+    return () => this.backoffListeners.delete(listener);
+  }
+
+  // Slows polling while the page is in a background tab.
+  setHidden(hidden: boolean) {
+    this.hidden = hidden;
+  }
+
+  // Latest snapshot of the pair the token is tracked on.
   getTokenData(address: string): DexScreenerPair | null {
-    return this.tokenData.get(address.toLowerCase()) || null;
+    const key = this.activePairs.get(address.toLowerCase());
+    return (key && this.pairData.get(key)) || null;
   }
 
   stopUpdates() {
     if (this.updateInterval) {
-      clearInterval(this.updateInterval);
+      this.clock.clearInterval(this.updateInterval);
       this.updateInterval = null;
     }
   }
 }
 
-export const dexScreenerService = DexScreenerService.getInstance();
+export const dexScreenerService = new DexScreenerService();
@@ -0,0 +1,70 @@
+// services/fixture-provider.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import type { MarketDataProvider } from "@/services/market-data-provider";
+import type { Recording } from "@/lib/recording";
+import { searchRecording } from "@/lib/search";
+import { systemClock, type Clock } from "@/lib/clock";
+
+// Serves a recording as if it were the API: recording time runs alongside the
+// clock from the first fetch, and each lookup returns the latest snapshot at
+// or before that moment. Polling, batching and rate limiting all still apply.
+export class FixtureProvider implements MarketDataProvider {
+  readonly name = "fixture";
+  private readonly recording: Recording;
+  private readonly clock: Clock;
+  private anchor: number | null = null;
+
+  constructor(recording: Recording, clock: Clock = systemClock) {
+    this.recording = recording;
+    this.clock = clock;
+  }
+
+  async fetchPairs(addresses: string[]): Promise<DexScreenerPair[]> {
+    if (this.anchor === null) this.anchor = this.clock.now();
+
+    const wanted = new Set(addresses.map((a) => a.toLowerCase()));
+    const now = this.now();
+    const latest = new Map<string, DexScreenerPair>();
+
+    for (const tick of this.recording.ticks) {
+      const address = tick.address.toLowerCase();
+      if (!wanted.has(address)) continue;
+      // Before an address's first snapshot, serve that snapshot.
+      if (tick.timestamp > now && latest.has(address)) continue;
+      latest.set(address, tick.pair);
+    }
+
+    return Array.from(latest.values());
+  }
+
+  async fetchPairsByAddress(
+    chainId: string,
+    pairAddresses: string[]
+  ): Promise<DexScreenerPair[]> {
+    if (this.anchor === null) this.anchor = this.clock.now();
+
+    const wanted = new Set(pairAddresses.map((a) => a.toLowerCase()));
+    const now = this.now();
+    const latest = new Map<string, DexScreenerPair>();
+
+    for (const { pair, timestamp } of this.recording.ticks) {
+      const key = pair.pairAddress.toLowerCase();
+      if (pair.chainId !== chainId || !wanted.has(key)) continue;
+      if (timestamp > now && latest.has(key)) continue;
+      latest.set(key, pair);
+    }
+
+    return Array.from(latest.values());
+  }
+
+  async searchPairs(query: string): Promise<DexScreenerPair[]> {
+    return searchRecording(this.recording.ticks, query, this.now());
+  }
+
+  now(): number {
+    const start =
+      this.recording.ticks[0]?.timestamp ?? this.recording.header.startedAt;
+    const elapsed = this.anchor === null ? 0 : this.clock.now() - this.anchor;
+    return start + elapsed;
+  }
+}
@@ -0,0 +1,35 @@
+// services/market-data-provider.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+
+// Where DexScreenerService gets its pairs from. Providers only answer
+// lookups; polling, batching, rate limiting and fan-out stay in the service.
+export interface MarketDataProvider {
+  readonly name: string;
+  // Every pair whose base token is one of the addresses, in any order.
+  fetchPairs(addresses: string[]): Promise<DexScreenerPair[]>;
+  // The given pairs on one chain, by pair address, in any order.
+  fetchPairsByAddress(
+    chainId: string,
+    pairAddresses: string[]
+  ): Promise<DexScreenerPair[]>;
+  // Pairs whose base token matches a name, symbol or address query.
+  searchPairs(query: string): Promise<DexScreenerPair[]>;
+  // Set by providers that publish their own updates (e.g. replay) through
+  // DexScreenerService.ingest; the service doesn't poll them.
+  readonly pushesUpdates?: boolean;
+  // Market time for providers that run on their own timeline.
+  now?(): number;
+}
+
+export class ProviderRequestError extends Error {
+  readonly status: number;
+  // How long the server asked us to wait before retrying, if it said.
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "ProviderRequestError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
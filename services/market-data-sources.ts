@@ -0,0 +1,16 @@
+// services/market-data-sources.ts
+import type { MarketDataProvider } from "@/services/market-data-provider";
+import { DexScreenerProvider } from "@/services/dexscreener-provider";
+import { SyntheticProvider } from "@/services/synthetic-provider";
+
+// Providers that can be picked at runtime. Fixtures and replays are built from
+// a recording instead, so they aren't listed here.
+export const MARKET_DATA_SOURCES = {
+  live: { label: "Live", create: () => new DexScreenerProvider() },
+  synthetic: {
+    label: "Synthetic",
+    create: () => new SyntheticProvider({ seed: Date.now() }),
+  },
+} satisfies Record<string, { label: string; create: () => MarketDataProvider }>;
+
+export type MarketDataSource = keyof typeof MARKET_DATA_SOURCES;
@@ -0,0 +1,343 @@
+// services/persistence-service.ts
+import type { FeeSettings } from "@/lib/fees";
+import type { EquityPoint } from "@/lib/equity";
+import type { CostBasisMethod } from "@/lib/cost-basis";
+import type { WatchlistEntry } from "@/lib/watchlist";
+import type { OrderPresets } from "@/lib/order-sizing";
+import type { AccountIndex } from "@/lib/accounts";
+import type { RiskSettings } from "@/lib/risk";
+import type { Alert, AlertEvent } from "@/lib/alerts";
+import type { PositionRecord } from "@/lib/portfolio";
+import type { Order, Trade } from "@/lib/types";
+
+export interface PersistedSession {
+  balance: number;
+  initialBalance: number;
+  tokens: PositionRecord[];
+  trades: Trade[];
+  orders: Order[];
+  feeSettings: FeeSettings;
+  equityHistory: EquityPoint[];
+  costBasisMethod: CostBasisMethod;
+  watchlist: WatchlistEntry[];
+  orderPresets: OrderPresets;
+  riskSettings: RiskSettings;
+  alerts: Alert[];
+  alertFeed: AlertEvent[];
+  watchedAddresses: string[];
+  savedAt: number;
+}
+
+// A session as saved by any earlier version. Fields added since may be
+// missing, and orders, positions and trades may predate fields their types
+// now require; migrations fill them in.
+type StoredRecord = Record<string, unknown>;
+
+interface StoredSession
+  extends Omit<Partial<PersistedSession>, "orders" | "tokens" | "trades"> {
+  orders?: StoredRecord[];
+  tokens?: Array<StoredRecord & { trades?: StoredRecord[] }>;
+  trades?: StoredRecord[];
+}
+
+interface Migration {
+  // Object stores and other schema changes.
+  schema?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  // Reshapes one saved session from the previous version.
+  session?: (session: StoredSession) => StoredSession;
+  // Moves a saved session to a new key.
+  rekey?: (key: IDBValidKey) => IDBValidKey;
+}
+
+// Each entry upgrades the database from version N to N + 1. Append new
+// migrations to the end; never edit one that has already shipped.
+const MIGRATIONS: Migration[] = [
+  {
+    schema: (db) => {
+      db.createObjectStore("session");
+    },
+  },
+  // v2: resting limit orders
+  {
+    session: (session) => ({
+      ...session,
+      orders: session.orders ?? [],
+    }),
+  },
+  // v3: orders became a union of limit, trailing-stop and bracket orders
+  {
+    session: (session) => ({
+      ...session,
+      orders: (session.orders ?? []).map((order) => ({
+        kind: "limit",
+        ...order,
+      })),
+    }),
+  },
+  // v4: equity curve samples
+  {
+    session: (session) => ({
+      ...session,
+      equityHistory: session.equityHistory ?? [],
+    }),
+  },
+  // v5: per-session cost-basis method
+  {
+    session: (session) => ({
+      ...session,
+      costBasisMethod: session.costBasisMethod ?? "average",
+    }),
+  },
+  // v6: positions and trades record their chain; earlier sessions were
+  // Solana-only
+  {
+    session: (session) => ({
+      ...session,
+      tokens: (session.tokens ?? []).map((token) => ({
+        chainId: "solana",
+        ...token,
+        trades: (token.trades ?? []).map((trade) => ({
+          chainId: "solana",
+          ...trade,
+        })),
+      })),
+      trades: (session.trades ?? []).map((trade) => ({
+        chainId: "solana",
+        ...trade,
+      })),
+    }),
+  },
+  // v7: watchlist separate from trading cards; existing tokens stay cards
+  {
+    session: (session) => ({
+      ...session,
+      watchlist: session.watchlist ?? [],
+    }),
+  },
+  // v8: configurable quick-size presets, seeded with the old fixed buttons
+  // plus percent sizes
+  {
+    session: (session) => ({
+      ...session,
+      orderPresets: session.orderPresets ?? {
+        buy: [
+          { unit: "usd", value: 100 },
+          { unit: "usd", value: 250 },
+          { unit: "percent", value: 25 },
+        ],
+        sell: [
+          { unit: "percent", value: 25 },
+          { unit: "percent", value: 50 },
+          { unit: "percent", value: 100 },
+        ],
+      },
+    }),
+  },
+  // v9: named paper accounts. Sessions are keyed by account id and the
+  // existing session becomes the "default" account.
+  {
+    schema: (db, transaction) => {
+      db.createObjectStore("accounts");
+      const request = transaction.objectStore("session").get("current");
+      request.onsuccess = () => {
+        const session = request.result;
+        const now = Date.now();
+        transaction.objectStore("accounts").put(
+          {
+            activeAccountId: "default",
+            accounts: [
+              {
+                id: "default",
+                name: "Main",
+                startingBalance: session?.initialBalance ?? 1000,
+                createdAt: now,
+                runStartedAt: now,
+              },
+            ],
+            archivedRuns: [],
+          },
+          "index"
+        );
+      };
+    },
+    rekey: (key) => (key === "current" ? "default" : key),
+  },
+  // v10: risk scoring, with trade blocking off by default
+  {
+    session: (session) => ({
+      ...session,
+      riskSettings: session.riskSettings ?? {
+        blockTrades: false,
+        threshold: 70,
+      },
+    }),
+  },
+  // v11: price and market alerts with their feed
+  {
+    session: (session) => ({
+      ...session,
+      alerts: session.alerts ?? [],
+      alertFeed: session.alertFeed ?? [],
+    }),
+  },
+];
+
+// Runs every session migration after fromVersion over each saved session in
+// one cursor pass, so each step sees the output of the one before. Separate
+// cursors per migration would interleave and read records before earlier
+// updates land.
+function migrateSessions(transaction: IDBTransaction, fromVersion: number) {
+  const steps = MIGRATIONS.slice(fromVersion);
+  const store = transaction.objectStore("session");
+  // Rekeyed sessions are written once the cursor is done, so it can't visit
+  // them a second time.
+  const moved: Array<[IDBValidKey, StoredSession]> = [];
+
+  const request = store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) {
+      moved.forEach(([key, session]) => store.put(session, key));
+      return;
+    }
+
+    let key = cursor.key;
+    let session: StoredSession = cursor.value;
+    for (const step of steps) {
+      session = step.session?.(session) ?? session;
+      key = step.rekey?.(key) ?? key;
+    }
+
+    if (indexedDB.cmp(key, cursor.key) === 0) {
+      cursor.update(session);
+    } else {
+      cursor.delete();
+      moved.push([key, session]);
+    }
+    cursor.continue();
+  };
+}
+
+class PersistenceService {
+  private static instance: PersistenceService;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private readonly DB_NAME = "trading-simulator";
+  private readonly DB_VERSION = MIGRATIONS.length;
+  private readonly SESSION_STORE = "session";
+  private readonly ACCOUNTS_STORE = "accounts";
+  private readonly ACCOUNTS_KEY = "index";
+
+  static getInstance(): PersistenceService {
+    if (!PersistenceService.instance) {
+      PersistenceService.instance = new PersistenceService();
+    }
+    return PersistenceService.instance;
+  }
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction;
+        if (!transaction) return;
+
+        for (let v = event.oldVersion; v < MIGRATIONS.length; v++) {
+          MIGRATIONS[v].schema?.(db, transaction);
+        }
+        // A brand new database has no sessions to migrate.
+        if (event.oldVersion > 0)
+          migrateSessions(transaction, event.oldVersion);
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async loadAccounts(): Promise<AccountIndex | null> {
+    if (!this.isAvailable()) return null;
+    try {
+      const index = await this.withStore<AccountIndex | undefined>(
+        this.ACCOUNTS_STORE,
+        "readonly",
+        (store) => store.get(this.ACCOUNTS_KEY)
+      );
+      return index ?? null;
+    } catch (error) {
+      console.error("Error loading accounts:", error);
+      return null;
+    }
+  }
+
+  async saveAccounts(index: AccountIndex): Promise<void> {
+    if (!this.isAvailable()) return;
+    try {
+      await this.withStore(this.ACCOUNTS_STORE, "readwrite", (store) =>
+        store.put(index, this.ACCOUNTS_KEY)
+      );
+    } catch (error) {
+      console.error("Error saving accounts:", error);
+    }
+  }
+
+  async loadSession(accountId: string): Promise<PersistedSession | null> {
+    if (!this.isAvailable()) return null;
+    try {
+      const session = await this.withStore<PersistedSession | undefined>(
+        this.SESSION_STORE,
+        "readonly",
+        (store) => store.get(accountId)
+      );
+      return session ?? null;
+    } catch (error) {
+      console.error("Error loading session:", error);
+      return null;
+    }
+  }
+
+  async saveSession(
+    accountId: string,
+    session: Omit<PersistedSession, "savedAt">
+  ): Promise<void> {
+    if (!this.isAvailable()) return;
+    try {
+      const saved: PersistedSession = { ...session, savedAt: Date.now() };
+      await this.withStore(this.SESSION_STORE, "readwrite", (store) =>
+        store.put(saved, accountId)
+      );
+    } catch (error) {
+      console.error("Error saving session:", error);
+    }
+  }
+}
+
+export const persistenceService = PersistenceService.getInstance();
@@ -0,0 +1,204 @@
+// services/replay-service.ts
+import {
+  dexScreenerService,
+  type DexScreenerPair,
+} from "@/services/dexscreener-service";
+import type { MarketDataProvider } from "@/services/market-data-provider";
+import type { Recording } from "@/lib/recording";
+import { searchRecording } from "@/lib/search";
+
+export interface ReplayState {
+  loaded: boolean;
+  playing: boolean;
+  speed: number;
+  startTime: number;
+  endTime: number;
+  currentTime: number;
+  addresses: string[];
+}
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50];
+
+class ReplayService {
+  private static instance: ReplayService;
+  private recording: Recording | null = null;
+  private cursor = 0;
+  private currentTime = 0;
+  private speed = 1;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastWallTime = 0;
+  private latestByAddress: Map<string, DexScreenerPair> = new Map();
+  // The provider to restore on unload.
+  private previousProvider: MarketDataProvider | null = null;
+  private listeners: Set<(state: ReplayState) => void> = new Set();
+
+  private readonly TICK_MS = 100;
+
+  static getInstance(): ReplayService {
+    if (!ReplayService.instance) {
+      ReplayService.instance = new ReplayService();
+    }
+    return ReplayService.instance;
+  }
+
+  load(recording: Recording) {
+    this.unload();
+    if (recording.ticks.length === 0) {
+      throw new Error("Recording has no ticks");
+    }
+
+    this.recording = recording;
+    this.currentTime = recording.ticks[0].timestamp;
+    this.previousProvider = dexScreenerService.getProvider();
+    dexScreenerService.setProvider({
+      name: "replay",
+      pushesUpdates: true,
+      fetchPairs: async (addresses) =>
+        addresses.flatMap((address) => this.lookup(address) ?? []),
+      fetchPairsByAddress: async (_chainId, pairAddresses) =>
+        pairAddresses.flatMap((pairAddress) =>
+          Array.from(this.latestByAddress.values()).filter(
+            (pair) =>
+              pair.pairAddress.toLowerCase() === pairAddress.toLowerCase()
+          )
+        ),
+      searchPairs: async (query) =>
+        searchRecording(recording.ticks, query, this.currentTime),
+      now: () => this.currentTime,
+    });
+
+    this.emitUpTo(this.currentTime);
+    this.notify();
+  }
+
+  unload() {
+    this.pause();
+    if (this.previousProvider) {
+      dexScreenerService.setProvider(this.previousProvider);
+      this.previousProvider = null;
+    }
+    this.recording = null;
+    this.cursor = 0;
+    this.latestByAddress.clear();
+    this.notify();
+  }
+
+  play() {
+    if (!this.recording || this.timer) return;
+    if (this.currentTime >= this.getEndTime()) {
+      this.seek(this.recording.ticks[0].timestamp);
+    }
+
+    this.lastWallTime = Date.now();
+    this.timer = setInterval(() => this.step(), this.TICK_MS);
+    this.notify();
+  }
+
+  pause() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.notify();
+  }
+
+  setSpeed(speed: number) {
+    this.speed = Math.min(50, Math.max(1, speed));
+    this.notify();
+  }
+
+  // Jumps to a point in the recording and republishes the latest snapshot of
+  // every token as of that moment, so the UI reflects the new position.
+  seek(timestamp: number) {
+    if (!this.recording) return;
+
+    const { ticks } = this.recording;
+    this.currentTime = Math.min(
+      Math.max(timestamp, ticks[0].timestamp),
+      this.getEndTime()
+    );
+    this.cursor = 0;
+    this.latestByAddress.clear();
+
+    while (
+      this.cursor < ticks.length &&
+      ticks[this.cursor].timestamp <= this.currentTime
+    ) {
+      const tick = ticks[this.cursor++];
+      this.latestByAddress.set(tick.address.toLowerCase(), tick.pair);
+    }
+    this.latestByAddress.forEach((pair, address) =>
+      dexScreenerService.ingest(address, pair)
+    );
+    this.notify();
+  }
+
+  getState(): ReplayState {
+    return {
+      loaded: this.recording !== null,
+      playing: this.timer !== null,
+      speed: this.speed,
+      startTime: this.recording?.ticks[0].timestamp ?? 0,
+      endTime: this.getEndTime(),
+      currentTime: this.currentTime,
+      addresses: this.recording?.header.addresses ?? [],
+    };
+  }
+
+  subscribe(listener: (state: ReplayState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private step() {
+    const now = Date.now();
+    this.currentTime += (now - this.lastWallTime) * this.speed;
+    this.lastWallTime = now;
+
+    this.emitUpTo(this.currentTime);
+    if (this.currentTime >= this.getEndTime()) {
+      this.currentTime = this.getEndTime();
+      this.pause();
+      return;
+    }
+    this.notify();
+  }
+
+  private emitUpTo(timestamp: number) {
+    if (!this.recording) return;
+    const { ticks } = this.recording;
+
+    while (
+      this.cursor < ticks.length &&
+      ticks[this.cursor].timestamp <= timestamp
+    ) {
+      const tick = ticks[this.cursor++];
+      const address = tick.address.toLowerCase();
+      this.latestByAddress.set(address, tick.pair);
+      dexScreenerService.ingest(address, tick.pair);
+    }
+  }
+
+  // Tokens added mid-replay start from their most recent snapshot, or their
+  // first one if the playhead hasn't reached it yet.
+  private lookup(address: string): DexScreenerPair | null {
+    const latest = this.latestByAddress.get(address);
+    if (latest) return latest;
+    return (
+      this.recording?.ticks.find((t) => t.address.toLowerCase() === address)
+        ?.pair ?? null
+    );
+  }
+
+  private getEndTime(): number {
+    const ticks = this.recording?.ticks;
+    return ticks && ticks.length > 0 ? ticks[ticks.length - 1].timestamp : 0;
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+export const replayService = ReplayService.getInstance();
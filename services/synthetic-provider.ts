@@ -0,0 +1,148 @@
+// services/synthetic-provider.ts
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import type { MarketDataProvider } from "@/services/market-data-provider";
+import { systemClock, type Clock } from "@/lib/clock";
+import { matchesSearch, SEARCH_FIXTURE } from "@/lib/search";
+
+interface SyntheticOptions {
+  clock?: Clock;
+  seed?: number;
+  // Standard deviation of each step's log return.
+  volatility?: number;
+  stepMs?: number;
+}
+
+interface SyntheticToken {
+  price: number;
+  liquidityUsd: number;
+  openPrice: number;
+  lastStep: number;
+  random: () => number;
+}
+
+// Small, fast, seedable PRNG (mulberry32).
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashAddress(address: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < address.length; i++) {
+    hash = Math.imul(hash ^ address.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Generates a random-walk pair for any address. The walk advances in fixed
+// steps of clock time, so a seed and a clock fully determine every price.
+export class SyntheticProvider implements MarketDataProvider {
+  readonly name = "synthetic";
+  private readonly clock: Clock;
+  private readonly seed: number;
+  private readonly volatility: number;
+  private readonly stepMs: number;
+  private tokens: Map<string, SyntheticToken> = new Map();
+
+  constructor(options: SyntheticOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.seed = options.seed ?? 1;
+    this.volatility = options.volatility ?? 0.01;
+    this.stepMs = options.stepMs ?? 1000;
+  }
+
+  async fetchPairs(addresses: string[]): Promise<DexScreenerPair[]> {
+    return addresses.map((address) => this.getPair(address.toLowerCase()));
+  }
+
+  // Synthetic tokens have a single pair, addressed "synthetic-<token>".
+  async fetchPairsByAddress(
+    chainId: string,
+    pairAddresses: string[]
+  ): Promise<DexScreenerPair[]> {
+    return pairAddresses
+      .map((pairAddress) => pairAddress.toLowerCase())
+      .filter((pairAddress) => pairAddress.startsWith("synthetic-"))
+      .map((pairAddress) =>
+        this.getPair(pairAddress.slice("synthetic-".length))
+      )
+      .filter((pair) => pair.chainId === chainId);
+  }
+
+  // Searches the offline fixture; matches get walks like any other address.
+  async searchPairs(query: string): Promise<DexScreenerPair[]> {
+    return SEARCH_FIXTURE.filter((token) => matchesSearch(token, query)).map(
+      (token) => this.getPair(token.address.toLowerCase())
+    );
+  }
+
+  private getToken(address: string): SyntheticToken {
+    let token = this.tokens.get(address);
+    if (!token) {
+      const random = createRandom(this.seed ^ hashAddress(address));
+      const price = 10 ** (random() * 6 - 5); // $0.00001 – $10
+      token = {
+        price,
+        openPrice: price,
+        liquidityUsd: 50000 + random() * 950000,
+        lastStep: this.clock.now(),
+        random,
+      };
+      this.tokens.set(address, token);
+    }
+    return token;
+  }
+
+  private getPair(address: string): DexScreenerPair {
+    const token = this.getToken(address);
+
+    while (this.clock.now() - token.lastStep >= this.stepMs) {
+      // Box-Muller normal draw for the log return.
+      const u = 1 - token.random();
+      const v = token.random();
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      token.price *= Math.exp(this.volatility * z);
+      token.lastStep += this.stepMs;
+    }
+
+    const change = (token.price / token.openPrice - 1) * 100;
+    const baseReserve = token.liquidityUsd / 2 / token.price;
+    // Fixture tokens keep their real names and chain.
+    const known = SEARCH_FIXTURE.find(
+      (t) => t.address.toLowerCase() === address
+    );
+    const symbol = known?.symbol ?? `SYN${address.slice(-4).toUpperCase()}`;
+    const window = { buys: 0, sells: 0 };
+
+    return {
+      chainId: known?.chainId ?? "solana",
+      dexId: "synthetic",
+      pairAddress: `synthetic-${address}`,
+      baseToken: {
+        address,
+        name: known?.name ?? `Synthetic ${symbol}`,
+        symbol,
+      },
+      quoteToken: { address: "synthetic-usd", name: "USD", symbol: "USD" },
+      priceUsd: token.price.toString(),
+      priceNative: token.price.toString(),
+      priceChange: { h24: change, h6: change, h1: change, m5: change },
+      volume: { h24: 0, h6: 0, h1: 0, m5: 0 },
+      liquidity: {
+        usd: token.liquidityUsd,
+        base: baseReserve,
+        quote: token.liquidityUsd / 2,
+      },
+      txns: { h24: window, h6: window, h1: window, m5: window },
+      marketCap: token.price * 1e9,
+      fdv: token.price * 1e9,
+      pairCreatedAt: 0,
+    };
+  }
+}
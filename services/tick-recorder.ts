@@ -0,0 +1,94 @@
+// services/tick-recorder.ts
+import { dexScreenerService } from "@/services/dexscreener-service";
+import {
+  RECORDING_VERSION,
+  toNdjsonLine,
+  type RecordingEntry,
+} from "@/lib/recording";
+import { downloadFile } from "@/lib/utils";
+
+// Receives each NDJSON line as it is produced, e.g. a file stream in Node.
+export type RecordingSink = (line: string) => void;
+
+export class TickRecorder {
+  private lines: string[] = [];
+  private tickCount = 0;
+  private startedAt: number | null = null;
+  private stopListening: (() => void) | null = null;
+  private readonly sink?: RecordingSink;
+
+  constructor(sink?: RecordingSink) {
+    this.sink = sink;
+  }
+
+  private write(entry: RecordingEntry) {
+    const line = toNdjsonLine(entry);
+    if (this.sink) {
+      this.sink(line);
+    } else {
+      this.lines.push(line);
+    }
+  }
+
+  start(source: string = "browser") {
+    if (this.stopListening) return;
+
+    this.lines = [];
+    this.tickCount = 0;
+    this.startedAt = dexScreenerService.now();
+    this.write({
+      type: "session",
+      version: RECORDING_VERSION,
+      startedAt: this.startedAt,
+      pollInterval: dexScreenerService.getPollInterval(),
+      addresses: dexScreenerService.getTrackedAddresses(),
+      source,
+    });
+
+    this.stopListening = dexScreenerService.addUpdateListener(
+      (address, pair) => {
+        this.tickCount++;
+        this.write({
+          type: "tick",
+          timestamp: dexScreenerService.now(),
+          address,
+          pair,
+        });
+      }
+    );
+  }
+
+  stop() {
+    this.stopListening?.();
+    this.stopListening = null;
+  }
+
+  isRecording(): boolean {
+    return this.stopListening !== null;
+  }
+
+  getTickCount(): number {
+    return this.tickCount;
+  }
+
+  getStartedAt(): number | null {
+    return this.startedAt;
+  }
+
+  toNdjson(): string {
+    return this.lines.join("");
+  }
+
+  download(filename?: string) {
+    if (this.lines.length === 0) return;
+
+    const name =
+      filename ??
+      `dexscreener-${new Date(this.startedAt ?? Date.now())
+        .toISOString()
+        .replace(/[:.]/g, "-")}.ndjson`;
+    downloadFile(this.toNdjson(), name, "application/x-ndjson");
+  }
+}
+
+export const tickRecorder = new TickRecorder();
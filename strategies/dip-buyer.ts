@@ -0,0 +1,51 @@
+// strategies/dip-buyer.ts
+import type { Strategy } from "@/lib/strategy";
+
+const ENTRY_SIZE = 100; // USD
+const DIP_PERCENT = 5;
+const TARGET_PERCENT = 8;
+const STOP_PERCENT = 5;
+
+interface DipState {
+  high: number;
+}
+
+// Buys a fixed amount after a pullback from the running high, then exits at a
+// fixed gain or loss relative to the position's average cost.
+export const dipBuyer: Strategy<DipState> = {
+  id: "dip-buyer",
+  name: "Dip Buyer",
+  description: `Buys $${ENTRY_SIZE} after a ${DIP_PERCENT}% drop from the high; exits at +${TARGET_PERCENT}% or -${STOP_PERCENT}% from cost.`,
+
+  init: () => ({ high: 0 }),
+
+  onTick({ price, cash, position, availableTokens }, state) {
+    state.high = Math.max(state.high, price);
+
+    if (availableTokens > 0) {
+      const change = (price / position.averageCost - 1) * 100;
+      if (change >= TARGET_PERCENT || change <= -STOP_PERCENT) {
+        // Re-arm from here so the next entry waits for a fresh dip.
+        state.high = price;
+        return {
+          type: "sell",
+          tokenAmount: availableTokens,
+          reason: `${change >= 0 ? "target" : "stop"} hit (${change.toFixed(
+            1
+          )}%)`,
+        };
+      }
+      return null;
+    }
+
+    const drawdown = (1 - price / state.high) * 100;
+    if (drawdown >= DIP_PERCENT && cash >= ENTRY_SIZE) {
+      return {
+        type: "buy",
+        amount: ENTRY_SIZE,
+        reason: `${drawdown.toFixed(1)}% below high`,
+      };
+    }
+    return null;
+  },
+};
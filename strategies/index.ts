@@ -0,0 +1,12 @@
+// strategies/index.ts
+import type { Strategy } from "@/lib/strategy";
+import { smaCrossover } from "@/strategies/sma-crossover";
+import { dipBuyer } from "@/strategies/dip-buyer";
+
+// Strategies offered in the UI and by id to the backtest runner. Add your own
+// module to this folder and list it here.
+export const STRATEGIES: Strategy[] = [smaCrossover, dipBuyer];
+
+export function getStrategy(id: string): Strategy | undefined {
+  return STRATEGIES.find((s) => s.id === id);
+}
@@ -0,0 +1,55 @@
+// strategies/sma-crossover.ts
+import type { Strategy } from "@/lib/strategy";
+
+const FAST_PERIOD = 5;
+const SLOW_PERIOD = 20;
+// Share of available cash committed on each entry.
+const ENTRY_FRACTION = 0.25;
+
+interface SmaState {
+  prices: number[];
+  wasAbove: boolean | null;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Goes long when the fast moving average crosses above the slow one and
+// exits the whole position when it crosses back below.
+export const smaCrossover: Strategy<SmaState> = {
+  id: "sma-crossover",
+  name: "SMA Crossover",
+  description: `Buys ${
+    ENTRY_FRACTION * 100
+  }% of cash when the ${FAST_PERIOD}-tick average crosses above the ${SLOW_PERIOD}-tick average; sells on the cross back down.`,
+
+  init: () => ({ prices: [], wasAbove: null }),
+
+  onTick({ price, cash, availableTokens }, state) {
+    state.prices = [...state.prices, price].slice(-SLOW_PERIOD);
+    if (state.prices.length < SLOW_PERIOD) return null;
+
+    const isAbove =
+      average(state.prices.slice(-FAST_PERIOD)) > average(state.prices);
+    const crossed = state.wasAbove !== null && isAbove !== state.wasAbove;
+    state.wasAbove = isAbove;
+    if (!crossed) return null;
+
+    if (isAbove && availableTokens === 0 && cash > 1) {
+      return {
+        type: "buy",
+        amount: cash * ENTRY_FRACTION,
+        reason: "fast SMA crossed above slow",
+      };
+    }
+    if (!isAbove && availableTokens > 0) {
+      return {
+        type: "sell",
+        tokenAmount: availableTokens,
+        reason: "fast SMA crossed below slow",
+      };
+    }
+    return null;
+  },
+};
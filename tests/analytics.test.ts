@@ -0,0 +1,98 @@
+// tests/analytics.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RISK_RATIO_MIN_SPAN,
+  calculateDrawdown,
+  calculateRiskRatios,
+  calculateTradeStats,
+  type EquitySample,
+} from "@/lib/analytics";
+import { assertClose, makeTrade } from "./helpers";
+
+const HOUR = 60 * 60 * 1000;
+
+// Equity that alternates 100, 101, 100, ... on the hour for a day, held
+// flat between the hours and sampled every `stepMs`.
+function alternating(stepMs: number): EquitySample[] {
+  const samples: EquitySample[] = [];
+  for (let t = 0; t <= 24 * HOUR; t += stepMs) {
+    samples.push({
+      timestamp: t,
+      equity: Math.floor(t / HOUR) % 2 ? 101 : 100,
+    });
+  }
+  return samples;
+}
+
+describe("risk ratios", () => {
+  it("reports nothing below the minimum span", () => {
+    const samples = alternating(HOUR).filter(
+      (s) => s.timestamp < RISK_RATIO_MIN_SPAN
+    );
+    assert.deepEqual(calculateRiskRatios(samples), {
+      sharpeRatio: null,
+      sortinoRatio: null,
+    });
+  });
+
+  it("annualizes hourly returns", () => {
+    // Twelve +1% and twelve -0.99% hours: mean 0.0000495, deviation
+    // 0.00995, downside deviation 0.0070, scaled by sqrt(8760).
+    const { sharpeRatio, sortinoRatio } = calculateRiskRatios(
+      alternating(HOUR)
+    );
+    assertClose(sharpeRatio, 0.4656, 1e-3);
+    assertClose(sortinoRatio, 0.6617, 1e-3);
+  });
+
+  it("doesn't change with the sampling rate", () => {
+    assert.deepEqual(
+      calculateRiskRatios(alternating(10_000)),
+      calculateRiskRatios(alternating(HOUR))
+    );
+  });
+});
+
+describe("drawdown", () => {
+  it("measures the deepest fall from a running peak", () => {
+    const samples = [100, 120, 90, 110, 95].map((equity, i) => ({
+      timestamp: i,
+      equity,
+    }));
+    assert.deepEqual(calculateDrawdown(samples), {
+      maxDrawdown: 30,
+      maxDrawdownPercent: 25,
+    });
+  });
+});
+
+describe("trade stats", () => {
+  it("scores sells by their realized P/L in time order", () => {
+    const trades = [
+      makeTrade("buy", 100, 1, 0),
+      makeTrade("sell", 10, 1, 4, { pnl: 20 }),
+      makeTrade("sell", 10, 1, 1, { pnl: 10 }),
+      makeTrade("sell", 10, 1, 2, { pnl: -5 }),
+      makeTrade("sell", 10, 1, 3, { pnl: -5 }),
+    ];
+    const stats = calculateTradeStats(trades);
+    assert.equal(stats.closedTrades, 4);
+    assert.equal(stats.winRate, 50);
+    assert.equal(stats.averageWin, 15);
+    assert.equal(stats.averageLoss, 5);
+    assert.equal(stats.profitFactor, 3);
+    assert.equal(stats.expectancy, 5);
+    assert.equal(stats.longestLosingStreak, 2);
+    assert.equal(stats.realizedPnL, 20);
+    assert.equal(stats.volume, 140);
+  });
+
+  it("has an infinite profit factor until something loses", () => {
+    const stats = calculateTradeStats([
+      makeTrade("sell", 10, 1, 1, { pnl: 3 }),
+    ]);
+    assert.equal(stats.profitFactor, Infinity);
+    assert.equal(calculateTradeStats([]).profitFactor, 0);
+  });
+});
@@ -0,0 +1,72 @@
+// tests/cost-basis.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateLotPnL, type CostBasisMethod } from "@/lib/cost-basis";
+import { makeTrade } from "./helpers";
+
+// Lots of 100 at $1, $3 and $2 ($600 in all), then 150 sold at $4.
+const trades = [
+  makeTrade("buy", 100, 1, 1),
+  makeTrade("buy", 100, 3, 2),
+  makeTrade("buy", 100, 2, 3),
+  makeTrade("sell", 150, 4, 4),
+];
+const sale = trades[3];
+
+describe("calculateLotPnL", () => {
+  const cases: Array<[CostBasisMethod, number, number[]]> = [
+    // method, cost of the 150 sold, cost per token of the open lots
+    ["fifo", 100 * 1 + 50 * 3, [3, 2]],
+    ["lifo", 100 * 2 + 50 * 3, [1, 3]],
+    ["hifo", 100 * 3 + 50 * 2, [1, 2]],
+    // Average cost draws half of every lot, so each keeps its own price.
+    ["average", 150 * 2, [1, 3, 2]],
+  ];
+
+  for (const [method, soldCost, openCosts] of cases) {
+    it(`sells ${method} lots`, () => {
+      const pnl = calculateLotPnL(trades, 4, method);
+      const openCost = 600 - soldCost;
+
+      assert.equal(pnl.realizedPnL, 600 - soldCost);
+      assert.equal(pnl.realizedByTrade[sale.id], 600 - soldCost);
+      assert.deepEqual(
+        pnl.openLots.map((lot) => lot.cost / lot.quantity),
+        openCosts
+      );
+      assert.equal(pnl.totalTokens, 150);
+      assert.equal(pnl.averageCost, openCost / 150);
+      assert.equal(pnl.unrealizedPnL, 150 * 4 - openCost);
+      assert.equal(pnl.totalPnL, pnl.realizedPnL + pnl.unrealizedPnL);
+    });
+  }
+
+  it("counts fees in a lot's cost and against the proceeds", () => {
+    const fees = { swap: 1, network: 1, tax: 0, total: 2 };
+    const pnl = calculateLotPnL(
+      [
+        makeTrade("buy", 100, 1, 1, { fees }),
+        makeTrade("sell", 50, 2, 2, { fees }),
+      ],
+      2,
+      "fifo"
+    );
+    // Half of the $102 lot sold for $100 less $2 of fees.
+    assert.equal(pnl.realizedPnL, 98 - 51);
+    assert.equal(pnl.averageCost, 51 / 50);
+    assert.equal(pnl.totalFees, 4);
+  });
+
+  it("leaves no lots once everything is sold", () => {
+    for (const method of ["fifo", "lifo", "hifo", "average"] as const) {
+      const pnl = calculateLotPnL(
+        [...trades.slice(0, 3), makeTrade("sell", 300, 4, 4)],
+        4,
+        method
+      );
+      assert.deepEqual(pnl.openLots, []);
+      assert.equal(pnl.totalTokens, 0);
+      assert.equal(pnl.realizedPnL, 1200 - 600);
+    }
+  });
+});
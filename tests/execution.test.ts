@@ -0,0 +1,77 @@
+// tests/execution.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  quoteBuy,
+  quoteBuyForTokens,
+  quoteSell,
+  quoteSellForValue,
+} from "@/lib/execution";
+import { assertClose, makePair } from "./helpers";
+
+// 1M tokens against $100k: a $0.10 spot price.
+const pair = makePair({ base: 1_000_000, quoteUsd: 100_000 });
+
+describe("quoteBuy", () => {
+  it("fills along x * y = k", () => {
+    const fill = quoteBuy(pair, 1000)!;
+    // base * usdIn / (quote + usdIn)
+    assertClose(fill.tokenAmount, (1_000_000 * 1000) / 101_000);
+    assert.equal(fill.value, 1000);
+    assertClose(fill.price, 0.101);
+    assert.equal(fill.marketPrice, 0.1);
+    assertClose(fill.priceImpact, 1);
+  });
+
+  it("moves the price more in a shallower pool", () => {
+    const shallow = makePair({ base: 100_000, quoteUsd: 10_000 });
+    assert.ok(
+      quoteBuy(shallow, 1000)!.priceImpact > quoteBuy(pair, 1000)!.priceImpact
+    );
+  });
+
+  it("falls back to half of liquidity.usd when the reserves are missing", () => {
+    const bare = makePair({
+      liquidity: { usd: 200_000, base: 0, quote: 0 },
+    });
+    assertClose(
+      quoteBuy(bare, 1000)!.tokenAmount,
+      quoteBuy(pair, 1000)!.tokenAmount
+    );
+  });
+
+  it("refuses empty orders and unpriced pairs", () => {
+    assert.equal(quoteBuy(pair, 0), null);
+    assert.equal(quoteBuy(makePair({ priceUsd: "0" }), 1000), null);
+    assert.equal(
+      quoteBuy(makePair({ liquidity: { usd: 0, base: 0, quote: 0 } }), 1000),
+      null
+    );
+  });
+});
+
+describe("quoteSell", () => {
+  it("fills along x * y = k", () => {
+    const fill = quoteSell(pair, 10_000)!;
+    // quote * tokensIn / (base + tokensIn)
+    assertClose(fill.value, (100_000 * 10_000) / 1_010_000);
+    assertClose(fill.priceImpact, (1 / 1.01 - 1) * 100);
+  });
+});
+
+describe("inverse quotes", () => {
+  it("quoteSellForValue undoes quoteSell", () => {
+    const fill = quoteSellForValue(pair, quoteSell(pair, 10_000)!.value)!;
+    assertClose(fill.tokenAmount, 10_000);
+  });
+
+  it("quoteBuyForTokens undoes quoteBuy", () => {
+    const tokens = quoteBuy(pair, 1000)!.tokenAmount;
+    assertClose(quoteBuyForTokens(pair, tokens)!.value, 1000);
+  });
+
+  it("can't drain the pool", () => {
+    assert.equal(quoteSellForValue(pair, 100_000), null);
+    assert.equal(quoteBuyForTokens(pair, 1_000_000), null);
+  });
+});
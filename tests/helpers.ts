@@ -0,0 +1,107 @@
+// tests/helpers.ts
+import assert from "node:assert/strict";
+import type { DexScreenerPair } from "@/services/dexscreener-service";
+import type { Portfolio } from "@/lib/portfolio";
+import type { Trade } from "@/lib/types";
+
+// A pair with an explicit pool: `base` tokens against `quoteUsd` of quote,
+// priced at quoteUsd / base.
+export function makePair(
+  overrides: Partial<DexScreenerPair> & {
+    base?: number;
+    quoteUsd?: number;
+  } = {}
+): DexScreenerPair {
+  const { base = 1_000_000, quoteUsd = 100_000, ...rest } = overrides;
+  const price = quoteUsd / base;
+  const token = { address: "tokena", name: "Token A", symbol: "TKA" };
+  const quote = { address: "usdc", name: "USD Coin", symbol: "USDC" };
+  const window = { h24: 0, h6: 0, h1: 0, m5: 0 };
+  const txns = { buys: 0, sells: 0 };
+  return {
+    chainId: "solana",
+    dexId: "raydium",
+    pairAddress: "PairA",
+    baseToken: token,
+    quoteToken: quote,
+    priceUsd: String(price),
+    // Quote priced at $1, so priceNative equals priceUsd.
+    priceNative: String(price),
+    priceChange: window,
+    volume: window,
+    liquidity: { usd: quoteUsd * 2, base, quote: quoteUsd },
+    txns: { h24: txns, h6: txns, h1: txns, m5: txns },
+    marketCap: 1_000_000,
+    fdv: 1_000_000,
+    pairCreatedAt: 0,
+    ...rest,
+  };
+}
+
+// Equal to within a relative epsilon; null never is.
+export function assertClose(
+  actual: number | null,
+  expected: number,
+  epsilon = 1e-9
+) {
+  assert.ok(
+    actual !== null &&
+      Math.abs(actual - expected) <= epsilon * Math.max(1, Math.abs(expected)),
+    `expected ${actual} to be close to ${expected}`
+  );
+}
+
+const NO_FEES = { swap: 0, network: 0, tax: 0, total: 0 };
+
+let nextId = 0;
+
+// A fee-free fill at `price`, `second` seconds into the session.
+export function makeTrade(
+  type: Trade["type"],
+  amount: number,
+  price: number,
+  second: number,
+  overrides: Partial<Trade> = {}
+): Trade {
+  return {
+    id: `t${++nextId}`,
+    symbol: "TKA",
+    type,
+    amount,
+    price,
+    value: amount * price,
+    timestamp: second * 1000,
+    marketPrice: price,
+    priceImpact: 0,
+    fees: NO_FEES,
+    ...overrides,
+  };
+}
+
+// A portfolio holding `holdings` tokens of tokena, bought at `price`.
+export function makePortfolio(
+  holdings: number,
+  price: number,
+  balance = 1000
+): Portfolio {
+  const buy = makeTrade("buy", holdings, price, 0);
+  return {
+    balance,
+    tokens: [
+      {
+        address: "tokena",
+        chainId: "solana",
+        symbol: "TKA",
+        holdings,
+        trades: [buy],
+        pnl: 0,
+        fees: 0,
+        averageCost: price,
+        currentPrice: price,
+      },
+    ],
+    trades: [buy],
+    orders: [],
+    costBasisMethod: "fifo",
+  };
+}
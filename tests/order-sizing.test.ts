@@ -0,0 +1,77 @@
+// tests/order-sizing.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_FEE_SETTINGS } from "@/lib/fees";
+import { sizeOrder, type OrderSize } from "@/lib/order-sizing";
+import { placeLimitOrder } from "@/lib/orders";
+import {
+  executeTrade,
+  getAvailableTokens,
+  type Portfolio,
+} from "@/lib/portfolio";
+import { makePair, makePortfolio } from "./helpers";
+
+// 1000 tokens at $0.10 with a resting limit sell for 300 of them.
+function withRestingSell(): Portfolio {
+  const result = placeLimitOrder(
+    makePortfolio(1000, 0.1),
+    { address: "tokena", type: "sell", limitPrice: 0.2, size: 300 },
+    DEFAULT_FEE_SETTINGS
+  );
+  if ("error" in result) throw new Error(result.error);
+  return result.portfolio;
+}
+
+function sell(portfolio: Portfolio, percent: number) {
+  const size: OrderSize = { unit: "percent", value: percent };
+  const pair = makePair();
+  const sized = sizeOrder(
+    portfolio,
+    pair,
+    "tokena",
+    "sell",
+    size,
+    DEFAULT_FEE_SETTINGS
+  );
+  if ("error" in sized) throw new Error(sized.error);
+  const result = executeTrade(
+    portfolio,
+    pair,
+    sized.order,
+    DEFAULT_FEE_SETTINGS
+  );
+  if ("error" in result) throw new Error(result.error);
+  return result;
+}
+
+describe("percent sells", () => {
+  it("takes partial percentages of the unreserved tokens", () => {
+    const portfolio = withRestingSell();
+    assert.equal(getAvailableTokens(portfolio, "tokena"), 700);
+
+    const result = sell(portfolio, 50);
+    assert.equal(result.trade.amount, 350);
+    assert.equal(result.portfolio.tokens[0].holdings, 650);
+    assert.equal(result.portfolio.orders.length, 1);
+  });
+
+  it("sells the whole holding at 100% and releases resting sells", () => {
+    const result = sell(withRestingSell(), 100);
+    assert.equal(result.trade.amount, 1000);
+    assert.equal(result.portfolio.tokens[0].holdings, 0);
+    assert.deepEqual(result.portfolio.orders, []);
+  });
+
+  it("refuses to size a sell with nothing held", () => {
+    const flat = sell(makePortfolio(1000, 0.1), 100).portfolio;
+    const sized = sizeOrder(
+      flat,
+      makePair(),
+      "tokena",
+      "sell",
+      { unit: "percent", value: 100 },
+      DEFAULT_FEE_SETTINGS
+    );
+    assert.deepEqual(sized, { error: "Insufficient tokens" });
+  });
+});
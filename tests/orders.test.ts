@@ -0,0 +1,131 @@
+// tests/orders.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  evaluateOrder,
+  fillOrder,
+  placeBracket,
+  placeTrailingStop,
+} from "@/lib/orders";
+import { DEFAULT_FEE_SETTINGS } from "@/lib/fees";
+import { getAvailableTokens, type Portfolio } from "@/lib/portfolio";
+import type { BracketOrder, TrailingStopOrder } from "@/lib/types";
+import { makePair, makePortfolio } from "./helpers";
+
+// 1000 tokens of tokena bought at $0.10, the pair's spot price.
+const portfolio = makePortfolio(1000, 0.1);
+
+function placed(result: { portfolio: Portfolio } | { error: string }) {
+  if ("error" in result) throw new Error(result.error);
+  return result.portfolio;
+}
+
+describe("bracket (OCO) orders", () => {
+  const withBracket = placed(
+    placeBracket(
+      portfolio,
+      { address: "tokena", stopPrice: 0.08, takeProfitPrice: 0.12, size: 400 },
+      0.1
+    )
+  );
+  const bracket = withBracket.orders[0] as BracketOrder;
+
+  it("reserves the size until a leg is hit", () => {
+    assert.equal(getAvailableTokens(withBracket, "tokena"), 600);
+    assert.equal(evaluateOrder(bracket, 0.1).trigger, null);
+  });
+
+  it("fires whichever leg is hit", () => {
+    assert.equal(evaluateOrder(bracket, 0.08).trigger, "stop-loss");
+    assert.equal(evaluateOrder(bracket, 0.13).trigger, "take-profit");
+  });
+
+  it("cancels the other leg when one fills", () => {
+    const result = fillOrder(
+      withBracket,
+      makePair({ base: 1_250_000, quoteUsd: 100_000 }),
+      bracket.id,
+      "stop-loss",
+      DEFAULT_FEE_SETTINGS
+    );
+    if ("error" in result) throw new Error(result.error);
+
+    assert.equal(result.trade.trigger, "stop-loss");
+    assert.equal(result.trade.amount, 400);
+    assert.deepEqual(result.portfolio.orders, []);
+    assert.equal(result.portfolio.tokens[0].holdings, 600);
+    assert.equal(getAvailableTokens(result.portfolio, "tokena"), 600);
+    // The take-profit leg went with the order.
+    const retry = fillOrder(
+      result.portfolio,
+      makePair(),
+      bracket.id,
+      "take-profit",
+      DEFAULT_FEE_SETTINGS
+    );
+    assert.deepEqual(retry, { error: "Order not found" });
+  });
+
+  it("must straddle the price", () => {
+    const result = placeBracket(
+      portfolio,
+      { address: "tokena", stopPrice: 0.11, takeProfitPrice: 0.12, size: 400 },
+      0.1
+    );
+    assert.deepEqual(result, {
+      error: "Bracket must straddle the current price",
+    });
+  });
+});
+
+describe("trailing stops", () => {
+  const order = placed(
+    placeTrailingStop(
+      portfolio,
+      { address: "tokena", trailMode: "percent", trailDistance: 10, size: 500 },
+      1
+    )
+  ).orders[0] as TrailingStopOrder;
+
+  it("starts one trail below the price", () => {
+    assert.equal(order.highWaterMark, 1);
+    assert.equal(order.stopPrice, 0.9);
+  });
+
+  it("ratchets the stop up with each new high", () => {
+    const { trigger, order: raised } = evaluateOrder(order, 2);
+    assert.equal(trigger, null);
+    const next = raised as TrailingStopOrder;
+    assert.equal(next.highWaterMark, 2);
+    assert.equal(next.stopPrice, 1.8);
+  });
+
+  it("never lowers the stop on a pullback", () => {
+    const raised = evaluateOrder(order, 2).order;
+    const { trigger, order: after } = evaluateOrder(raised, 1.9);
+    assert.equal(trigger, null);
+    assert.equal(after, raised);
+  });
+
+  it("fires once the price falls to the stop", () => {
+    const raised = evaluateOrder(order, 2).order;
+    assert.equal(evaluateOrder(raised, 1.8).trigger, "trailing-stop");
+  });
+
+  it("trails by a fixed amount in absolute mode", () => {
+    const absolute = placed(
+      placeTrailingStop(
+        portfolio,
+        {
+          address: "tokena",
+          trailMode: "absolute",
+          trailDistance: 0.5,
+          size: 500,
+        },
+        1
+      )
+    ).orders[0];
+    const next = evaluateOrder(absolute, 1.5).order as TrailingStopOrder;
+    assert.equal(next.stopPrice, 1);
+  });
+});